@@ -7,6 +7,7 @@ import { createStatusCommand } from './commands/status.ts';
 import { createResumeCommand } from './commands/resume.ts';
 import { createSetupCommand } from './commands/setup.ts';
 import { createConfigCommand } from './commands/config.ts';
+import { createAnswerCommand } from './commands/answer.ts';
 
 const VERSION = '0.1.0';
 
@@ -38,6 +39,9 @@ program.addCommand(createResumeCommand());
 // Status command - show progress
 program.addCommand(createStatusCommand());
 
+// Answer command - unblock a task waiting for input
+program.addCommand(createAnswerCommand());
+
 // Setup command - initialize project
 program.addCommand(createSetupCommand());
 
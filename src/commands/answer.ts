@@ -0,0 +1,116 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { Command } from 'commander';
+import pc from 'picocolors';
+import YAML from 'yaml';
+
+import {
+  detectProjectName,
+  getConfigPath,
+  getSessionDbPath,
+  isAtzentisConfigured,
+} from '../config/auto-detector.ts';
+import { SessionManager } from '../core/session-manager.ts';
+
+/**
+ * Create the 'answer' command
+ */
+export function createAnswerCommand(): Command {
+  const cmd = new Command('answer')
+    .description('Answer the question of a blocked task so it can continue')
+    .argument('<taskId>', 'Blocked task ID (e.g., T00-001)')
+    .argument('[reply...]', 'Answer to the question; omit to show the question')
+    .option('--project <name>', 'Project name')
+    .option('--session <id>', 'Session ID (defaults to the active session)')
+    .action(async (taskId: string, reply: string[], options) => {
+      await answerCommand(taskId, reply.join(' '), options);
+    });
+
+  return cmd;
+}
+
+/**
+ * Main answer command implementation
+ */
+async function answerCommand(
+  taskId: string,
+  reply: string,
+  options: {
+    project?: string;
+    session?: string;
+  }
+): Promise<void> {
+  const cwd = process.cwd();
+
+  // Detect project
+  const project = options.project || detectProject(cwd);
+  if (!project) {
+    console.error(pc.red('Error: Could not detect project. Use --project option.'));
+    process.exit(1);
+  }
+
+  if (!existsSync(getSessionDbPath(cwd))) {
+    console.error(pc.red('Error: No sessions found. Run "atzentis run" first.'));
+    process.exit(1);
+  }
+
+  const sessionManager = new SessionManager(cwd);
+
+  try {
+    const session = options.session
+      ? sessionManager.getSession(options.session)
+      : sessionManager.getActiveSession(project);
+
+    if (!session) {
+      console.error(pc.red('Error: No active session found.'));
+      process.exit(1);
+    }
+
+    const open = session.questions[taskId]?.find((q) => q.answer === undefined);
+    if (!open || !session.blockedTasks.includes(taskId)) {
+      console.error(pc.red(`Error: Task ${taskId} is not waiting for an answer.`));
+      if (session.blockedTasks.length > 0) {
+        console.log(pc.dim(`Blocked tasks: ${session.blockedTasks.join(', ')}`));
+      }
+      process.exit(1);
+    }
+
+    console.log(pc.cyan(`\n❓ ${taskId} asked:\n`));
+    console.log(`${open.question}\n`);
+
+    // Without a reply, only show the question
+    if (!reply.trim()) {
+      console.log(pc.dim(`Answer with "atzentis answer ${taskId} <reply>"\n`));
+      return;
+    }
+
+    sessionManager.answerQuestion(session.id, taskId, reply.trim());
+
+    console.log(pc.green(`✓ Answer recorded. ${taskId} is queued again.`));
+    console.log(pc.dim('Run "atzentis resume" to continue execution.\n'));
+  } finally {
+    sessionManager.close();
+  }
+}
+
+/**
+ * Detect project from current directory
+ */
+function detectProject(cwd: string): string | null {
+  // Check for .atzentis/cli/config.yaml
+  if (isAtzentisConfigured(cwd)) {
+    const configPath = getConfigPath(cwd);
+    try {
+      const content = readFileSync(configPath, 'utf-8');
+      const config = YAML.parse(content);
+      if (config?.project) {
+        return config.project;
+      }
+    } catch {
+      // Fall through
+    }
+  }
+
+  return detectProjectName(cwd);
+}
+
+export { createAnswerCommand as answerCommand };
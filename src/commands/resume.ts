@@ -3,7 +3,13 @@ import pc from 'picocolors';
 import { existsSync, readFileSync } from 'node:fs';
 import YAML from 'yaml';
 
-import type { Task, ProjectConfig } from '../config/schemas.ts';
+import {
+  type Task,
+  type ProjectConfig,
+  EngineTypeSchema,
+  FailurePolicySchema,
+  ProjectConfigSchema,
+} from '../config/schemas.ts';
 import {
   isAtzentisConfigured,
   getConfigPath,
@@ -12,9 +18,15 @@ import {
 } from '../config/auto-detector.ts';
 import { SessionManager } from '../core/session-manager.ts';
 import { WorktreeManager } from '../core/worktree-manager.ts';
-import { TaskScheduler } from '../core/task-scheduler.ts';
 import { loadTask } from '../core/task-loader.ts';
-import { getEngineRegistry } from '../engines/engine-registry.ts';
+import {
+  TaskExecutor,
+  checkEnginesAvailable,
+  reportExecution,
+  reportExecutionError,
+} from '../core/task-executor.ts';
+import { getEngineRegistry, type EngineSelection } from '../engines/engine-registry.ts';
+import { RetryPolicy } from '../core/retry-policy.ts';
 import { PromptBuilder } from '../prompt/builder.ts';
 
 /**
@@ -26,8 +38,20 @@ export function createResumeCommand(): Command {
     .option('--project <name>', 'Project name')
     .option('--session <id>', 'Session ID to resume')
     .option('--parallel', 'Execute tasks in parallel', false)
-    .option('--max-parallel <n>', 'Maximum parallel tasks', '3')
+    .option(
+      '--max-parallel <n>',
+      'Maximum parallel tasks (default: parallelStrategy.maxConcurrent)'
+    )
+    .option('--task-groups', 'Run parallelGroups in order (default: parallelStrategy.taskGroups)')
+    .option('--no-task-groups', 'Schedule from task dependencies only, ignoring parallelGroup')
+    .option(
+      '--on-failure <policy>',
+      'After a failure: fail-fast, continue-independent or continue-all (default: onFailure)'
+    )
     .option('--fast', 'Skip tests and lint', false)
+    .option('--keep-worktree', 'Retry failed tasks on top of their previous changes')
+    .option('--engine <type>', 'Agent engine (overrides agent.type and task frontmatter)')
+    .option('--model <model>', 'Agent model (overrides agent.model and task frontmatter)')
     .action(async (options) => {
       await resumeCommand(options);
     });
@@ -42,11 +66,36 @@ async function resumeCommand(options: {
   project?: string;
   session?: string;
   parallel: boolean;
-  maxParallel: string;
+  maxParallel?: string;
+  taskGroups?: boolean;
+  onFailure?: string;
   fast: boolean;
+  keepWorktree?: boolean;
+  engine?: string;
+  model?: string;
 }): Promise<void> {
   const cwd = process.cwd();
 
+  const engineType = options.engine ? EngineTypeSchema.safeParse(options.engine) : null;
+  if (engineType && !engineType.success) {
+    console.error(
+      pc.red(
+        `Error: Unknown engine '${options.engine}'. Expected one of: ${EngineTypeSchema.options.join(', ')}`
+      )
+    );
+    process.exit(1);
+  }
+
+  const onFailure = options.onFailure ? FailurePolicySchema.safeParse(options.onFailure) : null;
+  if (onFailure && !onFailure.success) {
+    console.error(
+      pc.red(
+        `Error: Unknown failure policy '${options.onFailure}'. Expected one of: ${FailurePolicySchema.options.join(', ')}`
+      )
+    );
+    process.exit(1);
+  }
+
   // Detect project
   const project = options.project || detectProject(cwd);
   if (!project) {
@@ -63,6 +112,9 @@ async function resumeCommand(options: {
     process.exit(1);
   }
 
+  // Load project config
+  const projectConfig = loadProjectConfig(cwd, project);
+
   const sessionManager = new SessionManager(cwd);
 
   try {
@@ -74,11 +126,23 @@ async function resumeCommand(options: {
     if (!session) {
       console.error(pc.red('Error: No active session found to resume.'));
       console.log(pc.dim('Run "atzentis status --all" to see all sessions.'));
-      process.exit(1);
+      process.exitCode = 1;
+      return;
     }
 
     // Check if there's work to do
-    if (session.pendingTasks.length === 0 && !session.currentTask) {
+    if (
+      session.pendingTasks.length === 0 &&
+      session.failedTasks.length === 0 &&
+      session.runningTasks.length === 0
+    ) {
+      if (session.blockedTasks.length > 0) {
+        console.log(
+          pc.yellow(`Waiting for input on ${session.blockedTasks.join(', ')}. Nothing to resume.`)
+        );
+        console.log(pc.dim('Answer with "atzentis answer <taskId> <reply>" first.\n'));
+        return;
+      }
       console.log(pc.green('Session already completed. No tasks to resume.\n'));
       return;
     }
@@ -87,23 +151,35 @@ async function resumeCommand(options: {
     console.log(pc.dim(`Phase: ${session.phase.toUpperCase()}`));
     console.log();
 
+    // Tasks that were running when the session was interrupted go back to pending,
+    // including ones interrupted mid-retry that are also listed as failed
+    const interrupted = session.runningTasks;
+    if (interrupted.length > 0) {
+      console.log(pc.yellow(`Resuming interrupted tasks: ${interrupted.join(', ')}\n`));
+      session.failedTasks = session.failedTasks.filter((taskId) => !interrupted.includes(taskId));
+      session.pendingTasks = [
+        ...interrupted,
+        ...session.pendingTasks.filter((taskId) => !interrupted.includes(taskId)),
+      ];
+      session.runningTasks = [];
+      sessionManager.updateSession(session);
+    }
+
     // Show progress
     const total =
-      session.completedTasks.length + session.failedTasks.length + session.pendingTasks.length;
+      session.completedTasks.length +
+      session.failedTasks.length +
+      session.blockedTasks.length +
+      session.pendingTasks.length;
     console.log(
       `Progress: ${session.completedTasks.length}/${total} completed, ${session.failedTasks.length} failed`
     );
 
-    // If there's a current task that was interrupted, add it back to pending
-    if (session.currentTask) {
-      console.log(pc.yellow(`\nResuming interrupted task: ${session.currentTask}`));
-      session.pendingTasks.unshift(session.currentTask);
-      session.currentTask = null;
-      sessionManager.updateSession(session);
-    }
-
-    // Load remaining tasks
-    const tasks = await loadRemainingTasks(cwd, project, session.pendingTasks);
+    // Load remaining tasks: failed tasks are retried along with the pending ones
+    const tasks = await loadRemainingTasks(cwd, project, [
+      ...session.failedTasks,
+      ...session.pendingTasks.filter((taskId) => !session.failedTasks.includes(taskId)),
+    ]);
     if (tasks.length === 0) {
       console.log(pc.yellow('\nNo tasks found to execute.'));
       return;
@@ -111,16 +187,36 @@ async function resumeCommand(options: {
 
     console.log(pc.dim(`\nResuming ${tasks.length} remaining tasks\n`));
 
-    // Check engine availability
+    // Parallelism: CLI flags override parallelStrategy in config.yaml
+    const maxParallel = options.maxParallel
+      ? Number.parseInt(options.maxParallel, 10)
+      : (projectConfig?.parallelStrategy?.maxConcurrent ?? 3);
+    if (!Number.isInteger(maxParallel) || maxParallel < 1) {
+      console.error(pc.red('Error: --max-parallel must be a positive integer.'));
+      process.exitCode = 1;
+      return;
+    }
+
+    // Resolve engine and model: CLI flags override config.yaml and task frontmatter
+    const engineSelection: EngineSelection = {
+      engine: engineType?.data ?? projectConfig?.agent?.type ?? 'claude-code',
+      model: options.model ?? projectConfig?.agent?.model,
+      fromFlags: { engine: !!engineType, model: !!options.model },
+    };
+
+    // Check availability of every engine this resume will use
     const registry = getEngineRegistry();
-    const engineInfo = await registry.getEngineInfo('claude-code');
-    if (!engineInfo?.available) {
-      console.error(pc.red('Error: Claude Code CLI not available.'));
-      process.exit(1);
+    registry.configure(cwd, projectConfig);
+    if (!(await checkEnginesAvailable(registry, tasks, engineSelection, projectConfig?.review))) {
+      process.exitCode = 1;
+      return;
     }
 
-    // Load project config
-    const projectConfig = loadProjectConfig(cwd, project);
+    // Same retry policy as run; --keep-worktree overrides the config
+    const retryPolicy = new RetryPolicy({
+      ...projectConfig?.retry,
+      keepWorktree: options.keepWorktree ?? projectConfig?.retry?.keepWorktree,
+    });
 
     // Initialize managers
     const worktreeManager = new WorktreeManager(
@@ -130,144 +226,40 @@ async function resumeCommand(options: {
     );
     const promptBuilder = new PromptBuilder(cwd, projectConfig || undefined);
 
-    // Execute remaining tasks
-    const executor = new ResumeExecutor(
+    // Execute remaining tasks through the same pipeline as run
+    const executor = new TaskExecutor(
       sessionManager,
       worktreeManager,
       promptBuilder,
       registry,
-      projectConfig
+      projectConfig,
+      engineSelection,
+      retryPolicy,
+      project,
+      cwd
     );
 
-    await executor.execute(session.id, tasks, {
+    const summary = await executor.execute(session.id, tasks, {
       parallel: options.parallel,
-      maxParallel: Number.parseInt(options.maxParallel, 10),
+      maxParallel,
+      taskGroups: options.taskGroups ?? projectConfig?.parallelStrategy?.taskGroups ?? true,
+      fileConflicts: projectConfig?.parallelStrategy?.fileConflicts ?? 'serialize',
+      onFailure: onFailure?.data ?? projectConfig?.onFailure ?? 'continue-independent',
       fast: options.fast,
+      phase: session.phase,
+      completed: session.completedTasks,
+      blocked: session.blockedTasks,
     });
 
-    console.log(pc.green('\n✅ All remaining tasks completed!\n'));
+    reportExecution(summary, 'All remaining tasks completed!');
   } catch (error) {
-    console.error(pc.red('\n❌ Execution failed:'), error);
-    console.log(pc.dim('Run "atzentis resume" to continue from checkpoint\n'));
-    process.exit(1);
+    reportExecutionError(error);
+    process.exitCode = 1;
   } finally {
     sessionManager.close();
   }
 }
 
-/**
- * ResumeExecutor handles task execution for resume
- */
-class ResumeExecutor {
-  constructor(
-    private sessionManager: SessionManager,
-    private worktreeManager: WorktreeManager,
-    private promptBuilder: PromptBuilder,
-    private engineRegistry: ReturnType<typeof getEngineRegistry>,
-    private projectConfig: ProjectConfig | null
-  ) {}
-
-  async execute(
-    sessionId: string,
-    tasks: Task[],
-    options: {
-      parallel: boolean;
-      maxParallel: number;
-      fast: boolean;
-    }
-  ): Promise<void> {
-    const scheduler = new TaskScheduler();
-    const waves = scheduler.buildExecutionWaves(tasks);
-
-    console.log(pc.cyan(`Executing ${tasks.length} tasks in ${waves.length} waves\n`));
-
-    for (let i = 0; i < waves.length; i++) {
-      const wave = waves[i];
-      console.log(pc.bold(`\n📦 Wave ${i + 1}/${waves.length}`));
-
-      if (options.parallel && wave.length > 1) {
-        const chunks = this.chunkArray(wave, options.maxParallel);
-        for (const chunk of chunks) {
-          await Promise.all(chunk.map((task) => this.executeTask(sessionId, task, options.fast)));
-        }
-      } else {
-        for (const task of wave) {
-          await this.executeTask(sessionId, task, options.fast);
-        }
-      }
-    }
-  }
-
-  private async executeTask(sessionId: string, task: Task, fast: boolean): Promise<void> {
-    const { createSpinner } = await import('nanospinner');
-    const spinner = createSpinner(`${task.id}: ${task.name}`).start();
-
-    try {
-      this.sessionManager.startTask(sessionId, task.id);
-
-      // Create or reuse worktree
-      const { worktreePath, branchName } = await this.worktreeManager.createWorktree(task.id, {
-        taskSlug: task.name.toLowerCase().replace(/\s+/g, '-').slice(0, 30),
-      });
-      this.sessionManager.registerWorktree(sessionId, task.id, worktreePath);
-      this.sessionManager.registerBranch(sessionId, task.id, branchName);
-
-      spinner.update({ text: `${task.id}: Building prompt...` });
-
-      const prompt = await this.promptBuilder.build(task);
-
-      spinner.update({ text: `${task.id}: Executing with Claude Code...` });
-
-      const engine = this.engineRegistry.getDefault();
-      const result = await engine.execute(prompt, {
-        workingDirectory: worktreePath,
-        dangerouslySkipPermissions: true,
-      });
-
-      if (!result.success || !result.completed) {
-        throw new Error(result.error || 'Execution failed');
-      }
-
-      if (!fast && this.projectConfig?.commands) {
-        spinner.update({ text: `${task.id}: Running validation...` });
-        // Validation would run here
-      }
-
-      spinner.update({ text: `${task.id}: Committing changes...` });
-      const hasChanges = await this.worktreeManager.hasUncommittedChanges(task.id);
-      if (hasChanges) {
-        await this.worktreeManager.commitChanges(
-          task.id,
-          `${task.id}: ${task.name}\n\nCo-Authored-By: Claude Code <noreply@anthropic.com>`
-        );
-      }
-
-      this.sessionManager.saveCheckpoint(sessionId, task.id, 'completed', {
-        duration: result.duration,
-      });
-
-      spinner.success({ text: pc.green(`${task.id}: ${task.name} ✓`) });
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      this.sessionManager.recordError(sessionId, task.id, errorMsg);
-      this.sessionManager.saveCheckpoint(sessionId, task.id, 'failed', {
-        error: errorMsg,
-      });
-
-      spinner.error({ text: pc.red(`${task.id}: ${task.name} ✗`) });
-      throw error;
-    }
-  }
-
-  private chunkArray<T>(array: T[], size: number): T[][] {
-    const chunks: T[][] = [];
-    for (let i = 0; i < array.length; i += size) {
-      chunks.push(array.slice(i, i + size));
-    }
-    return chunks;
-  }
-}
-
 /**
  * Load remaining tasks by their IDs
  */
@@ -289,21 +281,31 @@ async function loadRemainingTasks(
 }
 
 /**
- * Load project configuration
+ * Load and validate project configuration; exits on an unreadable or invalid file
  */
 function loadProjectConfig(cwd: string, _project: string): ProjectConfig | null {
   const configPath = getConfigPath(cwd);
 
-  if (existsSync(configPath)) {
-    try {
-      const content = readFileSync(configPath, 'utf-8');
-      return YAML.parse(content) as ProjectConfig;
-    } catch {
-      // Ignore
+  if (!existsSync(configPath)) return null;
+
+  let content: unknown;
+  try {
+    content = YAML.parse(readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    console.error(pc.red(`Error: Could not parse ${configPath}: ${(error as Error).message}`));
+    process.exit(1);
+  }
+
+  const result = ProjectConfigSchema.safeParse(content);
+  if (!result.success) {
+    console.error(pc.red(`Error: Invalid configuration in ${configPath}:`));
+    for (const issue of result.error.issues) {
+      console.error(pc.red(`  ${issue.path.join('.') || '(root)'}: ${issue.message}`));
     }
+    process.exit(1);
   }
 
-  return null;
+  return result.data;
 }
 
 /**
@@ -165,6 +165,7 @@ function generateConfig(project: string, settings: DetectedSettings): ProjectCon
       type: 'claude-code',
     },
     commands: {
+      typecheck: settings.typecheckCommand,
       test: settings.testCommand,
       lint: settings.lintCommand,
       build: settings.buildCommand,
@@ -203,6 +204,7 @@ interface ProjectConfigYaml {
     type: string;
   };
   commands: {
+    typecheck?: string;
     test?: string;
     lint?: string;
     build?: string;
@@ -318,6 +320,18 @@ Read these skill files before implementing:
 
 ---
 
+{{/if}}
+{{#if boundaries}}
+## Protected Files (DO NOT MODIFY)
+
+Never create, edit or delete files matching these patterns. Changes to them are rejected.
+
+{{#each boundaries}}
+- \`{{this}}\`
+{{/each}}
+
+---
+
 {{/if}}
 {{#if context}}
 ## Context
@@ -326,6 +340,56 @@ Read these skill files before implementing:
 
 ---
 
+{{/if}}
+{{#if answers}}
+## Answers to Your Questions
+
+You stopped earlier to ask for input. A human answered:
+
+{{#each answers}}
+**Q:** {{{question}}}
+
+**A:** {{{answer}}}
+
+{{/each}}
+Your earlier changes are still in the working tree. Continue from there.
+
+---
+
+{{/if}}
+{{#if retryContext}}
+## Previous Attempt Failed
+
+This is attempt {{retryContext.attempt}}. The previous attempt failed with:
+
+\`\`\`
+{{{retryContext.error}}}
+\`\`\`
+
+{{#if retryContext.validationOutput}}
+### {{retryContext.validationStep}} output
+
+\`\`\`
+{{{retryContext.validationOutput}}}
+\`\`\`
+
+{{/if}}
+{{#if retryContext.diff}}
+### Previous changes
+
+{{#if retryContext.worktreeKept}}
+These changes are still in the working tree. Fix the problems above incrementally instead of starting over.
+{{else}}
+The working tree was reset. These are the changes the previous attempt made; reuse what was correct.
+{{/if}}
+
+\`\`\`diff
+{{{retryContext.diff}}}
+\`\`\`
+
+{{/if}}
+---
+
 {{/if}}
 ## Instructions
 
@@ -346,13 +410,21 @@ Read these skill files before implementing:
 
 ### Completion
 
-When you have successfully completed ALL acceptance criteria, output:
+When you have successfully completed ALL acceptance criteria, output the completion token with a short JSON report:
+
+\`\`\`
+<promise>COMPLETE: {"summary": "One or two sentences on what you did", "filesChanged": ["path/to/file.ts"], "testsRun": true, "testsPassed": true}</promise>
+\`\`\`
+
+List every file you created, modified or deleted in \`filesChanged\`. The summary is used in the commit message and pull request.
+
+If you are blocked or need a decision from a human, do not guess. Stop and output your questions instead of the completion token:
 
 \`\`\`
-<promise>COMPLETE</promise>
+<promise>BLOCKED: What you need to know to proceed</promise>
 \`\`\`
 
-If you encounter blockers or need clarification, describe the issue clearly and what information you need to proceed.
+The task is paused until someone answers with \`atzentis answer\`; the answer is included when the task runs again.
 `;
 
 const EXAMPLE_REQUIREMENTS = `# Phase 00: Example Phase
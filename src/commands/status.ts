@@ -3,7 +3,11 @@ import pc from 'picocolors';
 import { existsSync, readFileSync } from 'node:fs';
 import YAML from 'yaml';
 
-import { SessionManager } from '../core/session-manager.ts';
+import {
+  SessionManager,
+  type StoredReviewResult,
+  type StoredValidationResult,
+} from '../core/session-manager.ts';
 import type { Session } from '../config/schemas.ts';
 import {
   isAtzentisConfigured,
@@ -21,6 +25,7 @@ export function createStatusCommand(): Command {
     .option('--project <name>', 'Project name')
     .option('--json', 'Output as JSON')
     .option('--all', 'Show all sessions, not just active')
+    .option('--task <id>', 'Show validation output and review verdicts for a task')
     .action(async (options) => {
       await statusCommand(options);
     });
@@ -35,6 +40,7 @@ async function statusCommand(options: {
   project?: string;
   json?: boolean;
   all?: boolean;
+  task?: string;
 }): Promise<void> {
   const cwd = process.cwd();
 
@@ -59,7 +65,20 @@ async function statusCommand(options: {
   const sessionManager = new SessionManager(cwd);
 
   try {
-    if (options.all) {
+    if (options.task) {
+      // Validation output and review verdicts of a task in the latest session
+      const session = sessionManager.getAllSessions(project)[0] ?? null;
+      const results = session ? sessionManager.getValidationResults(session.id, options.task) : [];
+      const reviews = session ? sessionManager.getReviewResults(session.id, options.task) : [];
+      if (options.json) {
+        console.log(
+          JSON.stringify({ taskId: options.task, validation: results, reviews }, null, 2)
+        );
+      } else {
+        displayValidationResults(options.task, results);
+        displayReviewResults(reviews);
+      }
+    } else if (options.all) {
       // Show all sessions
       const sessions = sessionManager.getAllSessions(project);
       if (options.json) {
@@ -102,22 +121,29 @@ function displayActiveSession(session: Session | null, project: string): void {
   }
   console.log();
 
-  // Current task
-  if (session.currentTask) {
-    console.log(pc.yellow(`🔄 Current Task: ${session.currentTask}`));
+  // Running tasks
+  if (session.runningTasks.length > 0) {
+    console.log(pc.yellow(`🔄 Running: ${session.runningTasks.join(', ')}`));
     console.log();
   }
 
   // Progress
   const total =
-    session.completedTasks.length + session.failedTasks.length + session.pendingTasks.length;
+    session.completedTasks.length +
+    session.failedTasks.length +
+    session.blockedTasks.length +
+    session.pendingTasks.length;
   const completed = session.completedTasks.length;
   const failed = session.failedTasks.length;
   const pending = session.pendingTasks.length;
+  const blocked = session.blockedTasks.length;
 
   console.log(pc.bold('Progress:'));
   console.log(`  ${pc.green('✓')} Completed: ${completed}/${total}`);
   console.log(`  ${pc.red('✗')} Failed: ${failed}`);
+  if (blocked > 0) {
+    console.log(`  ${pc.yellow('⏸')} Blocked: ${blocked}`);
+  }
   console.log(`  ${pc.dim('○')} Pending: ${pending}`);
   console.log();
 
@@ -129,6 +155,20 @@ function displayActiveSession(session: Session | null, project: string): void {
   console.log(`  [${bar}] ${progressPercent}%`);
   console.log();
 
+  // Agent spend (recorded when the engine reports usage, e.g. stream-json output)
+  const costed = session.checkpoints.filter((cp) => cp.costUsd !== undefined);
+  if (costed.length > 0) {
+    const totalCost = costed.reduce((sum, cp) => sum + (cp.costUsd ?? 0), 0);
+    const totalTokens = session.checkpoints.reduce(
+      (sum, cp) => sum + (cp.inputTokens ?? 0) + (cp.outputTokens ?? 0),
+      0
+    );
+    console.log(
+      `${pc.bold('Spend:')} $${totalCost.toFixed(2)} (${totalTokens.toLocaleString()} tokens)`
+    );
+    console.log();
+  }
+
   // Completed tasks
   if (session.completedTasks.length > 0) {
     console.log(pc.green('Completed Tasks:'));
@@ -151,6 +191,29 @@ function displayActiveSession(session: Session | null, project: string): void {
     console.log();
   }
 
+  // Blocked tasks with the agent's open question
+  if (session.blockedTasks.length > 0) {
+    console.log(pc.yellow('Waiting for Input:'));
+    for (const taskId of session.blockedTasks) {
+      const open = session.questions[taskId]?.find((q) => q.answer === undefined);
+      console.log(`  ${pc.yellow('⏸')} ${taskId}${open ? pc.dim(` - ${open.question}`) : ''}`);
+    }
+    console.log(pc.dim('  Answer with "atzentis answer <taskId> <reply>"'));
+    console.log();
+  }
+
+  // Task branches that could not be merged into the integration branch
+  const attention = Object.entries(session.integration).filter(
+    ([, result]) => result.status !== 'merged'
+  );
+  if (attention.length > 0) {
+    console.log(pc.yellow(`Needs Attention (${attention[0][1].branch}):`));
+    for (const [taskId, result] of attention) {
+      console.log(`  ${pc.yellow('!')} ${taskId}${pc.dim(` - ${result.error}`)}`);
+    }
+    console.log();
+  }
+
   // Pending tasks
   if (session.pendingTasks.length > 0) {
     console.log(pc.dim('Pending Tasks:'));
@@ -169,6 +232,61 @@ function displayActiveSession(session: Session | null, project: string): void {
   }
 }
 
+/**
+ * Display stored validation step results for a task
+ */
+function displayValidationResults(taskId: string, results: StoredValidationResult[]): void {
+  console.log(pc.cyan(`\n🔍 Validation - ${taskId}\n`));
+
+  if (results.length === 0) {
+    console.log(pc.yellow('No validation results recorded for this task.\n'));
+    return;
+  }
+
+  for (const result of results) {
+    const icon = result.success ? pc.green('✓') : pc.red('✗');
+    const attempt = result.attempt ? pc.dim(` attempt ${result.attempt}`) : '';
+    const fixRound = result.fixRound ? pc.dim(` fix ${result.fixRound}`) : '';
+    const outcome = result.timedOut ? 'timed out' : `exit ${result.exitCode}`;
+    console.log(
+      `${icon} ${pc.bold(result.step)}${attempt}${fixRound} ${pc.dim(`(${outcome}, ${(result.duration / 1000).toFixed(1)}s) $ ${result.command}`)}`
+    );
+
+    // Show the tail of failing output
+    if (!result.success && result.output.trim()) {
+      const lines = result.output.trimEnd().split('\n').slice(-40);
+      for (const line of lines) {
+        console.log(pc.dim(`    ${line}`));
+      }
+    }
+  }
+  console.log();
+}
+
+/**
+ * Display stored reviewer verdicts for a task
+ */
+function displayReviewResults(reviews: StoredReviewResult[]): void {
+  if (reviews.length === 0) return;
+
+  console.log(pc.cyan('📝 Review\n'));
+  for (const review of reviews) {
+    const icon = review.passed ? pc.green('✓') : pc.red('✗');
+    const attempt = review.attempt ? ` attempt ${review.attempt}` : '';
+    const round = review.round > 0 ? ` round ${review.round}` : '';
+    console.log(`${icon} ${pc.bold('review')}${pc.dim(`${attempt}${round}`)}`);
+
+    for (const verdict of review.verdicts) {
+      const mark = verdict.met ? pc.green('✓') : pc.red('✗');
+      console.log(`    ${mark} ${verdict.criterion}${pc.dim(` - ${verdict.reason}`)}`);
+    }
+    if (review.summary) {
+      console.log(pc.dim(`    ${review.summary}`));
+    }
+  }
+  console.log();
+}
+
 /**
  * Display all sessions
  */
@@ -189,13 +307,20 @@ function displayAllSessions(sessions: Session[], project: string): void {
 
   for (const session of sessions) {
     const total =
-      session.completedTasks.length + session.failedTasks.length + session.pendingTasks.length;
+      session.completedTasks.length +
+      session.failedTasks.length +
+      session.blockedTasks.length +
+      session.pendingTasks.length;
     const completed = session.completedTasks.length;
 
     let status: string;
-    if (session.pendingTasks.length === 0 && !session.currentTask) {
-      status = session.failedTasks.length > 0 ? pc.red('failed') : pc.green('completed');
-    } else if (session.currentTask) {
+    if (session.pendingTasks.length === 0 && session.runningTasks.length === 0) {
+      if (session.blockedTasks.length > 0) {
+        status = pc.yellow('blocked');
+      } else {
+        status = session.failedTasks.length > 0 ? pc.red('failed') : pc.green('completed');
+      }
+    } else if (session.runningTasks.length > 0) {
       status = pc.yellow('running');
     } else {
       status = pc.blue('paused');
@@ -95,6 +95,7 @@ export interface DetectedSettings {
   language?: string;
   packageManager?: 'npm' | 'pnpm' | 'yarn' | 'bun' | 'poetry' | 'pipenv' | 'cargo';
   runtime?: string;
+  typecheckCommand?: string;
   testCommand?: string;
   lintCommand?: string;
   buildCommand?: string;
@@ -157,6 +158,10 @@ async function detectJavaScriptProject(cwd: string, settings: DetectedSettings):
     if (packageJson.scripts?.build) {
       settings.buildCommand = `${pm} run build`;
     }
+    const typecheckScript = ['typecheck', 'type-check'].find((name) => packageJson.scripts?.[name]);
+    if (typecheckScript) {
+      settings.typecheckCommand = `${pm} run ${typecheckScript}`;
+    }
 
     // Detect framework
     settings.framework = detectFramework(packageJson);
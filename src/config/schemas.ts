@@ -14,6 +14,21 @@ export type TaskStatus = z.infer<typeof TaskStatusSchema>;
 export const PhaseStatusSchema = z.enum(['planning', 'synced', 'in_progress', 'completed', 'blocked']);
 export type PhaseStatus = z.infer<typeof PhaseStatusSchema>;
 
+// Conventional-commit type of a task's changes
+export const CommitTypeSchema = z.enum([
+  'feat',
+  'fix',
+  'docs',
+  'refactor',
+  'test',
+  'perf',
+  'build',
+  'ci',
+  'chore',
+  'style',
+]);
+export type CommitType = z.infer<typeof CommitTypeSchema>;
+
 // Task entry in meta.json
 export const PhaseTaskEntrySchema = z.object({
   id: z.string().regex(/^T\d{2}-\d{3}$/, 'Task ID must be in format T00-001'),
@@ -23,6 +38,7 @@ export const PhaseTaskEntrySchema = z.object({
   priority: z.enum(['P0', 'P1', 'P2', 'P3']),
   status: z.enum(['not_started', 'in_progress', 'completed', 'failed', 'blocked']),
   dependencies: z.array(z.string()).default([]),
+  type: CommitTypeSchema.optional(),
   subtasks: z.object({
     total: z.number().int().min(0),
     completed: z.number().int().min(0),
@@ -87,6 +103,10 @@ export const PhaseMetaSchema = z.object({
 });
 export type PhaseMeta = z.infer<typeof PhaseMetaSchema>;
 
+// Engine types are referenced by per-task agent overrides
+export const EngineTypeSchema = z.enum(['claude-code', 'opencode', 'cursor', 'mock', 'custom']);
+export type EngineType = z.infer<typeof EngineTypeSchema>;
+
 export const TaskSchema = z.object({
   id: z.string().regex(/^T\d{2}-\d{3}$/, 'Task ID must be in format T00-001'),
   name: z.string().min(1, 'Task name is required'),
@@ -98,12 +118,16 @@ export const TaskSchema = z.object({
   acceptanceCriteria: z.array(z.string()).default([]),
   estimate: z.string().optional(),
   priority: z.enum(['P0', 'P1', 'P2', 'P3']).optional(),
+  type: CommitTypeSchema.optional(), // Inferred from the name and files when omitted
   // New fields aligned with task-structure.md
   phase: z.string().optional(), // Phase ID (P00, P01, etc.)
   requirements: z.array(z.string()).default([]), // FR-XXX-NNN references
   businessRules: z.array(z.string()).default([]), // Business rules to follow
   testingRequirements: z.array(z.string()).default([]), // Tests to write
   skills: z.array(z.string()).default([]), // Skills to reference (clean-architecture, etc.)
+  // Per-task agent overrides (take precedence over config and CLI flags)
+  engine: EngineTypeSchema.optional(),
+  model: z.string().optional(),
 });
 export type Task = z.infer<typeof TaskSchema>;
 
@@ -111,6 +135,34 @@ export type Task = z.infer<typeof TaskSchema>;
 // Session Schemas
 // =============================================================================
 
+// Why a task attempt failed; used to decide whether it is retried
+export const FailureKindSchema = z.enum([
+  'timeout',
+  'exit-code',
+  'no-completion',
+  'validation',
+  'review',
+]);
+export type FailureKind = z.infer<typeof FailureKindSchema>;
+
+// Structured report the agent may attach to the completion token:
+// <promise>COMPLETE: {"summary": "...", "filesChanged": [...], "testsRun": true, "testsPassed": true}</promise>
+// Malformed fields are dropped rather than failing the task.
+export const CompletionMetadataSchema = z.object({
+  summary: z.string().optional().catch(undefined),
+  filesChanged: z.array(z.string()).optional().catch(undefined),
+  testsRun: z.boolean().optional().catch(undefined),
+  testsPassed: z.boolean().optional().catch(undefined),
+});
+export type CompletionMetadata = z.infer<typeof CompletionMetadataSchema>;
+
+// Reported files (filesChanged) compared with the worktree's actual changes
+export const FilesMismatchSchema = z.object({
+  unreported: z.array(z.string()), // Changed but not in filesChanged
+  unchanged: z.array(z.string()), // In filesChanged but not changed
+});
+export type FilesMismatch = z.infer<typeof FilesMismatchSchema>;
+
 export const CheckpointSchema = z.object({
   timestamp: z.string().datetime(),
   taskId: z.string(),
@@ -118,6 +170,15 @@ export const CheckpointSchema = z.object({
   prLink: z.string().url().optional(),
   duration: z.number().optional(),
   error: z.string().optional(),
+  costUsd: z.number().optional(),
+  inputTokens: z.number().int().optional(),
+  outputTokens: z.number().int().optional(),
+  attempt: z.number().int().min(1).optional(),
+  failureKind: FailureKindSchema.optional(),
+  outOfScopeFiles: z.array(z.string()).optional(), // Changes outside Task.files (strict scope)
+  fixRound: z.number().int().min(1).optional(), // Validation fix-up round within the attempt
+  completion: CompletionMetadataSchema.optional(), // Agent's completion report
+  filesMismatch: FilesMismatchSchema.optional(),
 });
 export type Checkpoint = z.infer<typeof CheckpointSchema>;
 
@@ -129,21 +190,47 @@ export const TaskErrorSchema = z.object({
 });
 export type TaskError = z.infer<typeof TaskErrorSchema>;
 
+// Question the agent asked with <promise>BLOCKED: ...</promise>, and the human's answer
+export const TaskQuestionSchema = z.object({
+  question: z.string(),
+  askedAt: z.string().datetime(),
+  answer: z.string().optional(),
+  answeredAt: z.string().datetime().optional(),
+});
+export type TaskQuestion = z.infer<typeof TaskQuestionSchema>;
+
+// Outcome of merging a task branch into the phase integration branch; conflict,
+// invalid (validation failed on the merged result) and error (the merge could not
+// be attempted or completed) need manual attention
+export const IntegrationResultSchema = z.object({
+  status: z.enum(['merged', 'conflict', 'invalid', 'error']),
+  branch: z.string(), // Integration branch
+  timestamp: z.string().datetime(),
+  conflicts: z.array(z.string()).default([]), // Files that conflicted
+  resolvedByAgent: z.boolean().optional(),
+  error: z.string().optional(),
+});
+export type IntegrationResult = z.infer<typeof IntegrationResultSchema>;
+
 export const SessionSchema = z.object({
   id: z.string().uuid(),
   project: z.string().min(1),
   phase: z.string().regex(/^p\d{2}$/i, 'Phase must be in format p00'),
   startedAt: z.string().datetime(),
   lastCheckpointAt: z.string().datetime().optional(),
-  currentTask: z.string().nullable().default(null),
+  runningTasks: z.array(z.string()).default([]), // Started and not yet checkpointed as done
   completedTasks: z.array(z.string()).default([]),
   failedTasks: z.array(z.string()).default([]),
   pendingTasks: z.array(z.string()).default([]),
+  blockedTasks: z.array(z.string()).default([]), // Waiting for an answer (atzentis answer)
   worktrees: z.record(z.string(), z.string()).default({}),
   branches: z.record(z.string(), z.string()).default({}),
+  baseBranches: z.record(z.string(), z.string()).default({}), // Branch each task started from
   prs: z.record(z.string(), z.string()).default({}),
   checkpoints: z.array(CheckpointSchema).default([]),
   errors: z.record(z.string(), TaskErrorSchema).default({}),
+  questions: z.record(z.string(), z.array(TaskQuestionSchema)).default({}),
+  integration: z.record(z.string(), IntegrationResultSchema).default({}),
 });
 export type Session = z.infer<typeof SessionSchema>;
 
@@ -151,8 +238,28 @@ export type Session = z.infer<typeof SessionSchema>;
 // Engine Schemas
 // =============================================================================
 
-export const EngineTypeSchema = z.enum(['claude-code', 'opencode', 'cursor']);
-export type EngineType = z.infer<typeof EngineTypeSchema>;
+export const OutputFormatSchema = z.enum(['text', 'stream-json']);
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
+export const TokenUsageSchema = z.object({
+  inputTokens: z.number().int().min(0).default(0),
+  outputTokens: z.number().int().min(0).default(0),
+  cacheReadTokens: z.number().int().min(0).default(0),
+  cacheCreationTokens: z.number().int().min(0).default(0),
+});
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+
+export const ToolCallSchema = z.object({
+  name: z.string(),
+  target: z.string().optional(), // File path, command or pattern the tool acted on
+});
+export type ToolCall = z.infer<typeof ToolCallSchema>;
+
+// Progress reported while a streaming engine runs
+export type EngineProgressEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; toolCall: ToolCall }
+  | { type: 'usage'; usage: TokenUsage; costUsd?: number };
 
 export const ExecuteOptionsSchema = z.object({
   model: z.string().optional(),
@@ -160,6 +267,10 @@ export const ExecuteOptionsSchema = z.object({
   maxRetries: z.number().int().min(0).default(2),
   dangerouslySkipPermissions: z.boolean().default(false),
   workingDirectory: z.string().optional(),
+  taskId: z.string().optional(), // Task being executed (used by the mock engine)
+  outputFormat: OutputFormatSchema.optional(), // Defaults to text
+  onProgress: z.custom<(event: EngineProgressEvent) => void>().optional(),
+  signal: z.custom<AbortSignal>().optional(), // Aborting terminates the agent process
 });
 export type ExecuteOptions = z.infer<typeof ExecuteOptionsSchema>;
 
@@ -170,9 +281,35 @@ export const ExecutionResultSchema = z.object({
   duration: z.number(),
   completed: z.boolean(),
   error: z.string().optional(),
+  // Populated by streaming engines
+  toolCalls: z.array(ToolCallSchema).optional(),
+  filesEdited: z.array(z.string()).optional(),
+  usage: TokenUsageSchema.optional(),
+  costUsd: z.number().min(0).optional(),
 });
 export type ExecutionResult = z.infer<typeof ExecutionResultSchema>;
 
+// Scripted response replayed by the mock engine for one attempt
+export const MockResponseSchema = z.object({
+  output: z.string().default(''),
+  files: z.record(z.string(), z.string()).default({}), // Worktree-relative path -> content
+  complete: z.boolean().default(true), // Emit the completion pattern
+  exitCode: z.number().int().default(0),
+  failTimes: z.number().int().min(0).default(0), // Fail the first N attempts
+  hang: z.boolean().default(false), // Never finish, so the timeout fires
+  delay: z.number().int().min(0).default(0), // Milliseconds before responding
+});
+export type MockResponse = z.infer<typeof MockResponseSchema>;
+
+// Mock fixture file: responses keyed by task ID (a list scripts successive attempts)
+export const MockFixtureSchema = z.object({
+  default: MockResponseSchema.optional(),
+  tasks: z
+    .record(z.string(), z.union([MockResponseSchema, z.array(MockResponseSchema).min(1)]))
+    .default({}),
+});
+export type MockFixture = z.infer<typeof MockFixtureSchema>;
+
 // =============================================================================
 // Project Configuration Schemas
 // =============================================================================
@@ -184,10 +321,26 @@ export const TaskSourceConfigSchema = z.object({
 });
 export type TaskSourceConfig = z.infer<typeof TaskSourceConfigSchema>;
 
+// Generic command-line engine declared in config.yaml (agent.custom).
+// Argument templates are Handlebars with {{prompt}}, {{promptFile}}, {{model}}, {{cwd}}, {{taskId}}.
+export const CustomEngineConfigSchema = z.object({
+  command: z.string().min(1, 'Custom engine command is required'),
+  args: z.array(z.string()).default([]),
+  promptDelivery: z.enum(['stdin', 'argument', 'file']).default('stdin'),
+  modelArgs: z.array(z.string()).default(['--model', '{{model}}']), // Appended when a model is set
+  skipPermissionsArgs: z.array(z.string()).default([]), // Appended for unattended runs
+  env: z.record(z.string(), z.string()).default({}),
+  versionArgs: z.array(z.string()).default(['--version']),
+});
+export type CustomEngineConfig = z.infer<typeof CustomEngineConfigSchema>;
+
 export const AgentConfigSchema = z.object({
   type: EngineTypeSchema,
   model: z.string().optional(),
   permissions: z.string().optional(),
+  outputFormat: OutputFormatSchema.default('text'), // stream-json reports tools, tokens and cost
+  fixture: z.string().optional(), // Mock engine fixture file (relative to project root)
+  custom: CustomEngineConfigSchema.optional(), // Used when type is 'custom'
 });
 export type AgentConfig = z.infer<typeof AgentConfigSchema>;
 
@@ -199,19 +352,61 @@ export const ContextProviderSchema = z.object({
 export type ContextProvider = z.infer<typeof ContextProviderSchema>;
 
 export const CommandsConfigSchema = z.object({
+  typecheck: z.string().optional(),
   test: z.string().optional(),
   lint: z.string().optional(),
   build: z.string().optional(),
 });
 export type CommandsConfig = z.infer<typeof CommandsConfigSchema>;
 
+// A named validation command run in the task worktree
+export const ValidationStepSchema = z.object({
+  name: z.string().min(1),
+  command: z.string().min(1),
+  timeout: z.number().int().positive().optional(), // ms; defaults to validation.timeout
+});
+export type ValidationStep = z.infer<typeof ValidationStepSchema>;
+
+// Without explicit steps, commands.typecheck/lint/build/test run in that order
+export const ValidationConfigSchema = z.object({
+  steps: z.array(ValidationStepSchema).optional(),
+  timeout: z.number().int().positive().default(600000), // Per-step default (10 minutes)
+  fixRounds: z.number().int().min(0).default(2), // Agent fix-up rounds after a failing step
+});
+export type ValidationConfig = z.infer<typeof ValidationConfigSchema>;
+
+// Captured outcome of one validation step
+export const ValidationStepResultSchema = z.object({
+  step: z.string(),
+  command: z.string(),
+  success: z.boolean(),
+  exitCode: z.number().int().nullable(),
+  timedOut: z.boolean().default(false),
+  duration: z.number(),
+  output: z.string(),
+});
+export type ValidationStepResult = z.infer<typeof ValidationStepResultSchema>;
+
+// How tasks that may run together but declare overlapping Task.files are handled:
+// serialize never runs them at the same time, warn reports them, ignore does neither
+export const FileConflictModeSchema = z.enum(['serialize', 'warn', 'ignore']);
+export type FileConflictMode = z.infer<typeof FileConflictModeSchema>;
+
+// Defaults for --parallel runs; --max-parallel and --[no-]task-groups override them
 export const ParallelStrategySchema = z.object({
   maxConcurrent: z.number().int().min(1).default(3),
-  taskGroups: z.boolean().default(true),
+  taskGroups: z.boolean().default(true), // Run parallelGroups in order; false: dependencies only
+  fileConflicts: FileConflictModeSchema.default('serialize'),
   worktreeDir: z.string().default('/tmp/atzentis-cli-worktrees'),
 });
 export type ParallelStrategy = z.infer<typeof ParallelStrategySchema>;
 
+// What happens to the rest of a run after a task fails:
+// fail-fast stops starting tasks, continue-independent skips the failed task's
+// (transitive) dependents, continue-all runs its dependents anyway
+export const FailurePolicySchema = z.enum(['fail-fast', 'continue-independent', 'continue-all']);
+export type FailurePolicy = z.infer<typeof FailurePolicySchema>;
+
 export const HooksConfigSchema = z.object({
   beforePhase: z.string().optional(),
   beforeTask: z.string().optional(),
@@ -221,6 +416,122 @@ export const HooksConfigSchema = z.object({
 });
 export type HooksConfig = z.infer<typeof HooksConfigSchema>;
 
+// Spend limits; time is agent time summed over task attempts
+export const BudgetLimitSchema = z.object({
+  maxMinutes: z.number().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
+  maxCostUsd: z.number().positive().optional(),
+});
+export type BudgetLimit = z.infer<typeof BudgetLimitSchema>;
+
+export const BudgetsConfigSchema = z.object({
+  task: BudgetLimitSchema.optional(), // All attempts of one task
+  phase: BudgetLimitSchema.optional(), // All sessions of the phase
+  session: BudgetLimitSchema.optional(), // The current session
+});
+export type BudgetsConfig = z.infer<typeof BudgetsConfigSchema>;
+
+// Files the agent must never modify
+export const BoundariesConfigSchema = z.object({
+  neverTouch: z.array(z.string()).default([]), // Glob patterns relative to the repo root
+  onViolation: z.enum(['fail', 'revert']).default('fail'), // Fail the task or revert the files
+});
+export type BoundariesConfig = z.infer<typeof BoundariesConfigSchema>;
+
+// Strict per-task file scope based on Task.files
+export const ScopeConfigSchema = z.object({
+  strict: z.boolean().default(false), // Check changes against the task's declared files
+  allow: z
+    .array(z.string())
+    .default([
+      'package-lock.json',
+      'pnpm-lock.yaml',
+      'yarn.lock',
+      'bun.lock',
+      'bun.lockb',
+      '**/__tests__/**',
+      '**/*.test.*',
+      '**/*.spec.*',
+    ]), // Always allowed in addition to Task.files
+  onViolation: z.enum(['report', 'fail']).default('report'),
+});
+export type ScopeConfig = z.infer<typeof ScopeConfigSchema>;
+
+// Per-phase integration branch (<project>/<phase>-integration) collecting completed task
+// branches; the merged result is validated unless --fast
+export const IntegrationConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  onConflict: z.enum(['agent', 'manual']).default('agent'), // Agent resolves, or leave to a human
+});
+export type IntegrationConfig = z.infer<typeof IntegrationConfigSchema>;
+
+// Branching of task worktrees, branch names and commit messages
+export const GitConfigSchema = z.object({
+  baseBranch: z.string().optional(), // Defaults to the remote's HEAD branch, then develop
+  // Handlebars; variables: project, id (lowercase task ID), taskId, slug, phase, type
+  branchTemplate: z.string().default('{{project}}/{{id}}{{#if slug}}-{{slug}}{{/if}}'),
+  // Handlebars; variables: subject, type, task (id, name, description), summary, filesChanged
+  commitTemplate: z.string().optional(),
+  // Subjects as `<type>(<task ID>): <name>` for commits and PR titles
+  conventionalCommits: z.boolean().default(false),
+  // Start dependent tasks from their dependencies' branches (merged when there are several)
+  // and open their PRs against that base
+  stackedBranches: z.boolean().default(false),
+  integration: IntegrationConfigSchema.optional(),
+});
+export type GitConfig = z.infer<typeof GitConfigSchema>;
+
+// Task-level retry policy shared by run and resume
+export const RetryConfigSchema = z.object({
+  maxAttempts: z.number().int().min(1).default(3), // Agent runs per task, including the first
+  backoffMs: z.number().int().min(0).default(2000), // Delay before the first retry
+  backoffMultiplier: z.number().min(1).default(2),
+  maxBackoffMs: z.number().int().min(0).default(30000),
+  retryOn: z
+    .array(FailureKindSchema)
+    .default(['timeout', 'exit-code', 'no-completion', 'validation', 'review']),
+  keepWorktree: z.boolean().default(false), // Retry on top of the previous attempt's changes
+});
+export type RetryConfig = z.infer<typeof RetryConfigSchema>;
+
+// Reviewer agent pass checking the diff against Task.acceptanceCriteria
+export const ReviewConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  engine: EngineTypeSchema.optional(), // Defaults to the task's engine
+  model: z.string().optional(),
+  template: z.string().optional(), // Handlebars template path relative to the project root
+  onFail: z.enum(['fail', 'reprompt']).default('reprompt'), // Fail the attempt or re-prompt the agent
+  maxRounds: z.number().int().min(0).default(1), // Re-prompts before the attempt fails
+});
+export type ReviewConfig = z.infer<typeof ReviewConfigSchema>;
+
+// JSON the reviewer returns inside <review></review>; criteria are numbered from 1
+export const ReviewerOutputSchema = z.object({
+  verdicts: z.array(
+    z.object({
+      criterion: z.number().int().min(1),
+      met: z.boolean(),
+      reason: z.string().default(''),
+    })
+  ),
+  summary: z.string().optional(),
+});
+
+// Verdict for one acceptance criterion
+export const CriterionVerdictSchema = z.object({
+  criterion: z.string(),
+  met: z.boolean(),
+  reason: z.string(),
+});
+export type CriterionVerdict = z.infer<typeof CriterionVerdictSchema>;
+
+export const ReviewResultSchema = z.object({
+  passed: z.boolean(),
+  verdicts: z.array(CriterionVerdictSchema),
+  summary: z.string().optional(),
+});
+export type ReviewResult = z.infer<typeof ReviewResultSchema>;
+
 export const ProjectConfigSchema = z.object({
   project: z.string().min(1),
   name: z.string().min(1),
@@ -240,6 +551,9 @@ export const ProjectConfigSchema = z.object({
   // Commands
   commands: CommandsConfigSchema.optional(),
 
+  // Validation pipeline run after each task
+  validation: ValidationConfigSchema.optional(),
+
   // Rules injected into prompts
   rules: z.array(z.string()).default([]),
 
@@ -258,12 +572,26 @@ export const ProjectConfigSchema = z.object({
   // Parallel execution
   parallelStrategy: ParallelStrategySchema.optional(),
 
+  // Git branching
+  git: GitConfigSchema.optional(),
+
+  // Failure policy (overridden by --on-failure)
+  onFailure: FailurePolicySchema.default('continue-independent'),
+
+  // Spend budgets
+  budgets: BudgetsConfigSchema.optional(),
+
+  // Retries
+  retry: RetryConfigSchema.optional(),
+
   // Boundary protection
-  boundaries: z
-    .object({
-      neverTouch: z.array(z.string()).default([]),
-    })
-    .optional(),
+  boundaries: BoundariesConfigSchema.optional(),
+
+  // Per-task file scope
+  scope: ScopeConfigSchema.optional(),
+
+  // Acceptance-criteria review
+  review: ReviewConfigSchema.optional(),
 });
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
 
@@ -275,16 +603,24 @@ export const RunOptionsSchema = z.object({
   phase: z.string().optional(),
   tasks: z.array(z.string()).optional(),
   parallel: z.boolean().default(false),
-  maxParallel: z.number().int().min(1).default(3),
+  maxParallel: z.number().int().min(1).optional(), // Overrides parallelStrategy.maxConcurrent
+  taskGroups: z.boolean().optional(), // Overrides parallelStrategy.taskGroups
   dryRun: z.boolean().default(false),
   fast: z.boolean().default(false), // Skip tests/lint
   project: z.string().optional(),
+  engine: EngineTypeSchema.optional(), // Overrides agent.type
+  model: z.string().optional(), // Overrides agent.model
+  keepWorktree: z.boolean().optional(), // Overrides retry.keepWorktree
+  onFailure: FailurePolicySchema.optional(), // Overrides onFailure
 });
 export type RunOptions = z.infer<typeof RunOptionsSchema>;
 
 export const ResumeOptionsSchema = z.object({
   project: z.string().optional(),
   sessionId: z.string().uuid().optional(),
+  engine: EngineTypeSchema.optional(),
+  model: z.string().optional(),
+  keepWorktree: z.boolean().optional(),
 });
 export type ResumeOptions = z.infer<typeof ResumeOptionsSchema>;
 
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import simpleGit from 'simple-git';
+import { BoundaryGuard } from './boundary-guard.ts';
+import { BoundaryViolationError } from './errors.ts';
+import { WorktreeManager } from './worktree-manager.ts';
+
+describe('BoundaryGuard', () => {
+  describe('findViolations', () => {
+    const guard = new BoundaryGuard({ neverTouch: ['.env', 'infra/**'] });
+
+    test('matches patterns without a slash at any depth', () => {
+      expect(guard.findViolations(['.env', 'apps/web/.env', 'src/env.ts'])).toEqual([
+        '.env',
+        'apps/web/.env',
+      ]);
+    });
+
+    test('matches patterns with a slash from the repo root', () => {
+      expect(guard.findViolations(['infra/main.tf', 'src/infra/main.tf'])).toEqual([
+        'infra/main.tf',
+      ]);
+    });
+  });
+
+  describe('enforce', () => {
+    let dir: string;
+    let worktree: string;
+    let worktreeManager: WorktreeManager;
+
+    beforeEach(async () => {
+      dir = mkdtempSync(join(tmpdir(), 'boundary-guard-'));
+      const repo = join(dir, 'repo');
+      const git = simpleGit();
+      await git.raw(['init', '-q', '-b', 'main', repo]);
+      const repoGit = simpleGit(repo)
+        .addConfig('user.name', 'Test')
+        .addConfig('user.email', 'test@example.com');
+      writeFileSync(join(repo, '.env'), 'SECRET=1\n');
+      await repoGit.add('.').commit('Initial commit');
+
+      worktreeManager = new WorktreeManager(repo, 'test', join(dir, 'worktrees'));
+      ({ worktreePath: worktree } = await worktreeManager.createWorktree('T00-001', {
+        baseBranch: 'main',
+      }));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    /** Change files in the task worktree and commit them, as an agent might */
+    async function commitInWorktree(files: Record<string, string>): Promise<void> {
+      for (const [file, content] of Object.entries(files)) {
+        writeFileSync(join(worktree, file), content);
+      }
+      await simpleGit(worktree).add('.').commit('Agent commit');
+    }
+
+    test('fails on a protected file that arrived as a commit', async () => {
+      await commitInWorktree({ '.env': 'SECRET=2\n', 'app.ts': 'export {};\n' });
+      const guard = new BoundaryGuard({ neverTouch: ['.env'] });
+
+      await expect(guard.enforce('T00-001', worktreeManager, 'main')).rejects.toBeInstanceOf(
+        BoundaryViolationError
+      );
+    });
+
+    test('reverts committed protected files to the base branch version', async () => {
+      await commitInWorktree({ '.env': 'SECRET=2\n', 'credentials.json': '{}\n' });
+      const guard = new BoundaryGuard({
+        neverTouch: ['.env', 'credentials.json'],
+        onViolation: 'revert',
+      });
+
+      const reverted = await guard.enforce('T00-001', worktreeManager, 'main');
+
+      expect(reverted.sort()).toEqual(['.env', 'credentials.json']);
+      expect(readFileSync(join(worktree, '.env'), 'utf-8')).toBe('SECRET=1\n');
+      expect(existsSync(join(worktree, 'credentials.json'))).toBe(false);
+      // Committing the revert leaves the branch without protected changes
+      expect(await simpleGit(worktree).raw(['diff', '--name-only', 'main'])).toBe('');
+    });
+
+    test('leaves changes to unprotected files alone', async () => {
+      await commitInWorktree({ 'app.ts': 'export {};\n' });
+      writeFileSync(join(worktree, 'app.test.ts'), 'export {};\n');
+      const guard = new BoundaryGuard({ neverTouch: ['.env'], onViolation: 'revert' });
+
+      expect(await guard.enforce('T00-001', worktreeManager, 'main')).toEqual([]);
+    });
+  });
+});
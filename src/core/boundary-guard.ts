@@ -0,0 +1,55 @@
+import { minimatch } from 'minimatch';
+import { type BoundariesConfig, BoundariesConfigSchema } from '../config/schemas.ts';
+import { BoundaryViolationError } from './errors.ts';
+import type { WorktreeManager } from './worktree-manager.ts';
+
+/**
+ * BoundaryGuard checks a task's changes against boundaries.neverTouch.
+ * Patterns without a slash match the file name at any depth (e.g. `.env`).
+ */
+export class BoundaryGuard {
+  private config: BoundariesConfig;
+
+  constructor(config?: Partial<BoundariesConfig>) {
+    const result = BoundariesConfigSchema.safeParse(config ?? {});
+    if (!result.success) {
+      throw new Error(`Invalid boundaries configuration: ${result.error.message}`);
+    }
+    this.config = result.data;
+  }
+
+  /**
+   * Files matching a protected pattern
+   */
+  findViolations(files: string[]): string[] {
+    return files.filter((file) =>
+      this.config.neverTouch.some((pattern) =>
+        minimatch(file, pattern, { dot: true, matchBase: !pattern.includes('/') })
+      )
+    );
+  }
+
+  /**
+   * Check a worktree's changes since it forked from `baseBranch`, committed or not.
+   * Violations either fail the task or are reverted, depending on
+   * boundaries.onViolation. Returns the reverted files.
+   */
+  async enforce(
+    taskId: string,
+    worktreeManager: WorktreeManager,
+    baseBranch: string
+  ): Promise<string[]> {
+    if (this.config.neverTouch.length === 0) return [];
+
+    const changed = await worktreeManager.getChangedFiles(taskId, baseBranch);
+    const violations = this.findViolations(changed);
+    if (violations.length === 0) return [];
+
+    if (this.config.onViolation === 'fail') {
+      throw new BoundaryViolationError(violations);
+    }
+
+    await worktreeManager.revertFiles(taskId, violations, baseBranch);
+    return violations;
+  }
+}
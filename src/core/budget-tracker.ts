@@ -0,0 +1,241 @@
+import type { BudgetLimit, BudgetsConfig, TokenUsage } from '../config/schemas.ts';
+import {
+  type BudgetDimension,
+  BudgetExceededError,
+  type BudgetScope,
+  formatAmount,
+} from './errors.ts';
+import type { SessionManager, Spend } from './session-manager.ts';
+
+const SCOPES: BudgetScope[] = ['task', 'phase', 'session'];
+const MIN_TIME_CHECK_MS = 1000;
+
+/**
+ * BudgetTracker enforces task, phase and session spend limits.
+ * Recorded spend comes from session checkpoints; spend of attempts still running
+ * is tracked in memory so parallel tasks count against shared budgets.
+ */
+export class BudgetTracker {
+  private inFlight: Map<string, LiveAttempt> = new Map();
+
+  constructor(
+    private budgets: BudgetsConfig | undefined,
+    private sessionManager: SessionManager,
+    private sessionId: string,
+    private project: string,
+    private phase: string
+  ) {}
+
+  /**
+   * Whether any budget is configured
+   */
+  get enabled(): boolean {
+    return SCOPES.some((scope) => hasLimits(this.budgets?.[scope]));
+  }
+
+  /**
+   * Throw if a budget is already exhausted before a task starts
+   */
+  assertCanStart(taskId: string): void {
+    const error = this.check(taskId);
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Track a running attempt. `onExceeded` fires once when a limit is reached,
+   * either from reported usage or when the remaining agent time runs out.
+   */
+  track(taskId: string, onExceeded: (error: BudgetExceededError) => void): BudgetWatch {
+    const attempt: LiveAttempt = {
+      startedAt: Date.now(),
+      tokens: 0,
+      costUsd: 0,
+      timer: null,
+      exceeded: false,
+    };
+    this.inFlight.set(taskId, attempt);
+
+    const notify = () => {
+      if (attempt.exceeded) return;
+      const error = this.check(taskId);
+      if (error) {
+        attempt.exceeded = true;
+        onExceeded(error);
+      }
+    };
+
+    // Parallel attempts consume shared time budgets together, so re-check
+    // until the limit is actually reached
+    const schedule = () => {
+      if (attempt.exceeded || this.inFlight.get(taskId) !== attempt) return;
+      const remaining = this.remainingTime(taskId);
+      if (remaining === null) return;
+      const delay = Math.max(remaining / this.inFlight.size, MIN_TIME_CHECK_MS);
+      attempt.timer = setTimeout(() => {
+        notify();
+        schedule();
+      }, delay);
+    };
+    schedule();
+
+    return {
+      update: (usage: TokenUsage, costUsd?: number) => {
+        attempt.tokens = usage.inputTokens + usage.outputTokens;
+        if (costUsd !== undefined) {
+          attempt.costUsd = costUsd;
+        }
+        notify();
+      },
+      stop: () => {
+        if (attempt.timer) {
+          clearTimeout(attempt.timer);
+        }
+        this.inFlight.delete(taskId);
+      },
+    };
+  }
+
+  /**
+   * Return the first exhausted limit for a task, if any
+   */
+  check(taskId: string): BudgetExceededError | null {
+    for (const scope of SCOPES) {
+      const limit = this.budgets?.[scope];
+      if (!hasLimits(limit)) continue;
+
+      const spent = this.getSpend(scope, taskId);
+      for (const [dimension, value, max] of limitEntries(spent, limit)) {
+        if (max !== undefined && value >= max) {
+          return new BudgetExceededError(scope, dimension, value, max);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Agent time left for a task across all scopes, or null when time is unlimited
+   */
+  remainingTime(taskId: string): number | null {
+    let remaining: number | null = null;
+
+    for (const scope of SCOPES) {
+      const maxMinutes = this.budgets?.[scope]?.maxMinutes;
+      if (maxMinutes === undefined) continue;
+
+      const left = maxMinutes * 60000 - this.getSpend(scope, taskId).durationMs;
+      remaining = remaining === null ? left : Math.min(remaining, left);
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Spend vs budget lines for the final report
+   */
+  formatReport(taskIds: string[]): string[] {
+    const lines: string[] = [];
+
+    const describe = (label: string, spent: Spend, limit: BudgetLimit | undefined) => {
+      if (!hasLimits(limit)) return;
+      const parts = limitEntries(spent, limit)
+        .filter(([, , max]) => max !== undefined)
+        .map(([dimension, value, max]) => {
+          const text = `${formatAmount(dimension, value)} / ${formatAmount(dimension, max ?? 0)}`;
+          return `${dimension} ${text}${max !== undefined && value >= max ? ' (exceeded)' : ''}`;
+        });
+      lines.push(`${label.padEnd(16)} ${parts.join('  ')}`);
+    };
+
+    describe(`phase ${this.phase.toUpperCase()}`, this.getSpend('phase'), this.budgets?.phase);
+    describe('session', this.getSpend('session'), this.budgets?.session);
+    for (const taskId of taskIds) {
+      describe(`task ${taskId}`, this.getSpend('task', taskId), this.budgets?.task);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Recorded spend for a scope plus spend of attempts still running
+   */
+  private getSpend(scope: BudgetScope, taskId?: string): Spend {
+    let recorded: Spend;
+    let live: LiveAttempt[];
+
+    if (scope === 'task') {
+      recorded = taskId
+        ? this.sessionManager.getTaskSpend(this.sessionId, taskId)
+        : { durationMs: 0, tokens: 0, costUsd: 0 };
+      const attempt = taskId ? this.inFlight.get(taskId) : undefined;
+      live = attempt ? [attempt] : [];
+    } else {
+      recorded =
+        scope === 'phase'
+          ? this.sessionManager.getPhaseSpend(this.project, this.phase)
+          : this.sessionManager.getSessionSpend(this.sessionId);
+      live = [...this.inFlight.values()];
+    }
+
+    const now = Date.now();
+    return live.reduce(
+      (total, attempt) => ({
+        durationMs: total.durationMs + (now - attempt.startedAt),
+        tokens: total.tokens + attempt.tokens,
+        costUsd: total.costUsd + attempt.costUsd,
+      }),
+      recorded
+    );
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function hasLimits(limit: BudgetLimit | undefined): limit is BudgetLimit {
+  return (
+    limit !== undefined &&
+    (limit.maxMinutes !== undefined ||
+      limit.maxTokens !== undefined ||
+      limit.maxCostUsd !== undefined)
+  );
+}
+
+function limitEntries(
+  spent: Spend,
+  limit: BudgetLimit
+): [BudgetDimension, number, number | undefined][] {
+  return [
+    [
+      'time',
+      spent.durationMs,
+      limit.maxMinutes !== undefined ? limit.maxMinutes * 60000 : undefined,
+    ],
+    ['tokens', spent.tokens, limit.maxTokens],
+    ['cost', spent.costUsd, limit.maxCostUsd],
+  ];
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Handle for a running attempt
+ */
+export interface BudgetWatch {
+  update(usage: TokenUsage, costUsd?: number): void;
+  stop(): void;
+}
+
+interface LiveAttempt {
+  startedAt: number;
+  tokens: number;
+  costUsd: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  exceeded: boolean;
+}
@@ -0,0 +1,153 @@
+import type {
+  ExecutionResult,
+  FailureKind,
+  ReviewResult,
+  ValidationStepResult,
+} from '../config/schemas.ts';
+
+/**
+ * Budget scope a limit applies to
+ */
+export type BudgetScope = 'task' | 'phase' | 'session';
+
+/**
+ * Budget dimension that was exceeded
+ */
+export type BudgetDimension = 'time' | 'tokens' | 'cost';
+
+/**
+ * Raised when a task, phase or session budget is exhausted.
+ * Budget failures are final: the task is not retried.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly scope: BudgetScope,
+    readonly dimension: BudgetDimension,
+    readonly spent: number,
+    readonly limit: number
+  ) {
+    super(
+      `Budget exceeded: ${scope} ${dimension} ${formatAmount(dimension, spent)} ` +
+        `reached the ${formatAmount(dimension, limit)} limit`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Format a budget amount for display
+ */
+export function formatAmount(dimension: BudgetDimension, value: number): string {
+  switch (dimension) {
+    case 'time':
+      return `${(value / 60000).toFixed(1)}min`;
+    case 'tokens':
+      return `${Math.round(value).toLocaleString()} tokens`;
+    case 'cost':
+      return `$${value.toFixed(2)}`;
+  }
+}
+
+/**
+ * Raised when a validation command (lint, test, ...) fails in a task worktree.
+ * Carries the command output so a retry can show it to the agent.
+ */
+export class ValidationError extends Error {
+  readonly step: string;
+  readonly output: string;
+
+  constructor(readonly result: ValidationStepResult) {
+    super(
+      result.timedOut
+        ? `${result.step} timed out after ${(result.duration / 1000).toFixed(1)}s`
+        : `${result.step} failed with exit code ${result.exitCode}`
+    );
+    this.name = 'ValidationError';
+    this.step = result.step;
+    this.output = result.output;
+  }
+}
+
+/**
+ * Raised when an agent run fails or ends without the completion token
+ */
+export class ExecutionError extends Error {
+  constructor(
+    readonly kind: FailureKind,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ExecutionError';
+  }
+
+  /**
+   * Classify an unsuccessful engine result
+   */
+  static fromResult(result: ExecutionResult): ExecutionError {
+    if (result.exitCode === 124) {
+      return new ExecutionError('timeout', result.error || 'Execution timed out');
+    }
+    if (result.success && !result.completed) {
+      return new ExecutionError(
+        'no-completion',
+        'Agent finished without outputting the completion token'
+      );
+    }
+    return new ExecutionError('exit-code', result.error || 'Execution failed');
+  }
+}
+
+/**
+ * Raised when the reviewer finds unmet acceptance criteria (or returns no verdict)
+ */
+export class ReviewError extends Error {
+  constructor(
+    readonly result: ReviewResult,
+    message?: string
+  ) {
+    const unmet = result.verdicts.filter((verdict) => !verdict.met);
+    const details = unmet.map((verdict) => `${verdict.criterion} (${verdict.reason})`).join('; ');
+    super(
+      message ??
+        `Review failed: ${unmet.length}/${result.verdicts.length} acceptance criteria unmet: ${details}`
+    );
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * Raised when the agent stops with `<promise>BLOCKED: ...</promise>` and needs a
+ * human answer. Blocked tasks are not retried; their dependents are skipped.
+ */
+export class TaskBlockedError extends Error {
+  constructor(
+    readonly taskId: string,
+    readonly question: string
+  ) {
+    super(`${taskId} is blocked: ${question}`);
+    this.name = 'TaskBlockedError';
+  }
+}
+
+/**
+ * Raised when an agent changed files protected by boundaries.neverTouch
+ */
+export class BoundaryViolationError extends Error {
+  constructor(readonly files: string[]) {
+    super(`Protected files were modified (boundaries.neverTouch): ${files.join(', ')}`);
+    this.name = 'BoundaryViolationError';
+  }
+}
+
+/**
+ * Raised in strict scope mode when a task changed files outside Task.files
+ */
+export class ScopeViolationError extends Error {
+  constructor(
+    readonly taskId: string,
+    readonly files: string[]
+  ) {
+    super(`${taskId} changed files outside its declared scope: ${files.join(', ')}`);
+    this.name = 'ScopeViolationError';
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test';
+import { TaskSchema } from '../config/schemas.ts';
+import { GitConventions, slugify } from './git-conventions.ts';
+
+describe('slugify', () => {
+  test('replaces characters not allowed in ref names with single dashes', () => {
+    expect(slugify('Fix: auth/login ~ ^v2? *[draft]..')).toBe('fix-auth-login-v2-draft');
+    expect(slugify('--Add  API -- client.')).toBe('add-api-client');
+  });
+
+  test('keeps at most 30 characters without a trailing dash', () => {
+    expect(slugify('Implement the user profile settings page')).toBe(
+      'implement-the-user-profile-set'
+    );
+    expect(slugify('Implement the user profile ab: cd')).toBe('implement-the-user-profile-ab');
+  });
+});
+
+describe('GitConventions', () => {
+  test('names branches from the template with a sanitized slug', () => {
+    const conventions = new GitConventions({}, 'web');
+    const task = TaskSchema.parse({ id: 'T01-002', name: 'Auth: login/logout' });
+
+    expect(conventions.branchName(task)).toBe('web/t01-002-auth-login-logout');
+  });
+
+  test('omits the slug when the name has no usable characters', () => {
+    const conventions = new GitConventions({}, 'web');
+    const task = TaskSchema.parse({ id: 'T01-002', name: '???' });
+
+    expect(conventions.branchName(task)).toBe('web/t01-002');
+  });
+});
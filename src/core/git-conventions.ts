@@ -0,0 +1,112 @@
+import Handlebars from 'handlebars';
+import {
+  type CommitType,
+  type CompletionMetadata,
+  type GitConfig,
+  GitConfigSchema,
+  type Task,
+} from '../config/schemas.ts';
+
+const DEFAULT_COMMIT_TEMPLATE = `{{subject}}{{#if summary}}
+
+{{summary}}{{/if}}
+
+Co-Authored-By: Claude Code <noreply@anthropic.com>`;
+
+/**
+ * GitConventions names task branches and writes commit messages and PR titles
+ * from the Handlebars templates in the `git` config section, optionally with
+ * conventional-commit subjects.
+ */
+export class GitConventions {
+  private config: GitConfig;
+  private branchTemplate: Handlebars.TemplateDelegate;
+  private commitTemplate: Handlebars.TemplateDelegate;
+
+  constructor(
+    config: Partial<GitConfig> | undefined,
+    private readonly project: string
+  ) {
+    const result = GitConfigSchema.safeParse(config ?? {});
+    if (!result.success) {
+      throw new Error(`Invalid git configuration: ${result.error.message}`);
+    }
+    this.config = result.data;
+    this.branchTemplate = Handlebars.compile(this.config.branchTemplate, { noEscape: true });
+    this.commitTemplate = Handlebars.compile(
+      this.config.commitTemplate ?? DEFAULT_COMMIT_TEMPLATE,
+      { noEscape: true }
+    );
+  }
+
+  /**
+   * Configured base branch; undefined to detect it from the remote
+   */
+  get baseBranch(): string | undefined {
+    return this.config.baseBranch;
+  }
+
+  /**
+   * Branch name for a task
+   */
+  branchName(task: Task): string {
+    return this.branchTemplate({
+      project: this.project,
+      id: task.id.toLowerCase(),
+      taskId: task.id,
+      slug: slugify(task.name),
+      phase: task.phase?.toLowerCase() ?? '',
+      type: commitTypeOf(task),
+    }).trim();
+  }
+
+  /**
+   * Subject line shared by commits and PR titles
+   */
+  subject(task: Task): string {
+    return this.config.conventionalCommits
+      ? `${commitTypeOf(task)}(${task.id}): ${task.name}`
+      : `${task.id}: ${task.name}`;
+  }
+
+  /**
+   * Commit message for a task's changes, with the agent's summary when reported
+   */
+  commitMessage(task: Task, completion?: CompletionMetadata): string {
+    return this.commitTemplate({
+      subject: this.subject(task),
+      type: commitTypeOf(task),
+      task: { id: task.id, name: task.name, description: task.description },
+      summary: completion?.summary,
+      filesChanged: completion?.filesChanged ?? [],
+    });
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Branch-safe slug of a task name: lowercase letters, digits and single dashes,
+ * at most 30 characters
+ */
+export function slugify(name: string): string {
+  const dashed = (text: string) => text.replace(/-+/g, '-').replace(/^-|-$/g, '');
+  return dashed(dashed(name.toLowerCase().replace(/[^a-z0-9-]+/g, '-')).slice(0, 30));
+}
+
+/**
+ * Conventional-commit type: Task.type, or inferred from the name and files
+ */
+export function commitTypeOf(task: Task): CommitType {
+  if (task.type) return task.type;
+  if (/^fix\b/i.test(task.name)) return 'fix';
+
+  const only = (pattern: RegExp) =>
+    task.files.length > 0 && task.files.every((file) => pattern.test(file));
+  if (only(/(^docs\/|\.mdx?$)/i)) return 'docs';
+  if (only(/(__tests__\/|\.(test|spec)\.)/)) return 'test';
+
+  return 'feat';
+}
@@ -0,0 +1,209 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import simpleGit, { type SimpleGit } from 'simple-git';
+import {
+  type IntegrationConfig,
+  IntegrationConfigSchema,
+  type IntegrationResult,
+} from '../config/schemas.ts';
+import type { MergeContext } from '../prompt/builder.ts';
+import { BoundaryViolationError } from './errors.ts';
+import type { WorktreeManager } from './worktree-manager.ts';
+
+const CONFLICT_MARKER = /^(<{7}|>{7})( |$)/m;
+
+/**
+ * PhaseIntegrator merges completed task branches into the phase integration branch
+ * in its own worktree, one merge at a time. Conflicts go to the agent or are left
+ * for manual attention (git.integration.onConflict); a merge whose combined result
+ * fails validation is rolled back. None of these, nor git errors along the way,
+ * fail the task: merge() always resolves with the outcome to record.
+ */
+export class PhaseIntegrator {
+  private config: IntegrationConfig;
+  private queue: Promise<unknown> = Promise.resolve();
+  private worktree: { worktreePath: string; branchName: string } | null = null;
+
+  constructor(
+    config: Partial<IntegrationConfig> | undefined,
+    private worktreeManager: WorktreeManager,
+    private phase: string,
+    private baseBranch: string
+  ) {
+    const result = IntegrationConfigSchema.safeParse(config ?? {});
+    if (!result.success) {
+      throw new Error(`Invalid integration configuration: ${result.error.message}`);
+    }
+    this.config = result.data;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Merge a task branch into the integration branch, after any merges in progress
+   */
+  merge(taskId: string, branch: string, handlers: IntegrationHandlers): Promise<IntegrationResult> {
+    const next = this.queue
+      .then(() => this.mergeNow(taskId, branch, handlers))
+      .catch((error) => this.failed(error));
+    this.queue = next;
+    return next;
+  }
+
+  /**
+   * Outcome of a merge that threw; a merge left in progress is aborted so the
+   * next one starts from a clean worktree
+   */
+  private async failed(error: unknown): Promise<IntegrationResult> {
+    if (this.worktree) {
+      await simpleGit(this.worktree.worktreePath)
+        .raw(['merge', '--abort'])
+        .catch(() => {});
+    }
+
+    return {
+      status: 'error',
+      branch:
+        this.worktree?.branchName ?? this.worktreeManager.getIntegrationBranchName(this.phase),
+      timestamp: new Date().toISOString(),
+      conflicts: [],
+      error: (error instanceof Error ? error.message : String(error)).trim(),
+    };
+  }
+
+  private async mergeNow(
+    taskId: string,
+    branch: string,
+    handlers: IntegrationHandlers
+  ): Promise<IntegrationResult> {
+    this.worktree ??= await this.worktreeManager.createIntegrationWorktree(this.phase, {
+      baseBranch: this.baseBranch,
+    });
+    const { worktreePath, branchName } = this.worktree;
+    const git = simpleGit(worktreePath);
+    const before = (await git.revparse(['HEAD'])).trim();
+    const result = (
+      status: IntegrationResult['status'],
+      details?: Partial<IntegrationResult>
+    ): IntegrationResult => ({
+      status,
+      branch: branchName,
+      timestamp: new Date().toISOString(),
+      conflicts: [],
+      ...details,
+    });
+
+    let conflicts: string[] = [];
+    let resolvedByAgent: boolean | undefined;
+    try {
+      // merge() rejects on conflicts (raw() would resolve)
+      await git.merge(['--no-ff', '-m', `Merge ${taskId} (${branch})`, branch]);
+    } catch (error) {
+      conflicts = await conflictedFiles(git);
+      if (conflicts.length === 0) throw error;
+
+      const merge = { branch, integrationBranch: branchName, conflicts };
+      resolvedByAgent =
+        this.config.onConflict === 'agent' &&
+        (await this.resolve(git, worktreePath, merge, handlers));
+      if (!resolvedByAgent) {
+        await git.raw(['merge', '--abort']).catch(() => {});
+        return result('conflict', {
+          conflicts,
+          error: `Merge conflicts in ${conflicts.join(', ')}`,
+        });
+      }
+    }
+
+    // Validate the combined result; roll the merge back if it fails
+    if (handlers.validate) {
+      try {
+        await handlers.validate(worktreePath);
+      } catch (error) {
+        await git.raw(['reset', '--hard', before]);
+        const message = error instanceof Error ? error.message : String(error);
+        return result('invalid', { conflicts, resolvedByAgent, error: message });
+      }
+    }
+
+    try {
+      await git.push(['-u', 'origin', branchName]);
+    } catch {
+      // Ignore push errors - the remote might not exist
+    }
+
+    return result('merged', { conflicts, resolvedByAgent });
+  }
+
+  /**
+   * Let the agent resolve the conflicts, then conclude the merge. False when the
+   * agent did not finish or left conflicts behind; throws when it touched
+   * protected files.
+   */
+  private async resolve(
+    git: SimpleGit,
+    worktreePath: string,
+    merge: MergeContext,
+    handlers: IntegrationHandlers
+  ): Promise<boolean> {
+    const finished = await handlers.resolveConflicts(worktreePath, merge).catch(() => false);
+    if (!finished) return false;
+
+    const markers = merge.conflicts.filter((file) => {
+      try {
+        return CONFLICT_MARKER.test(readFileSync(join(worktreePath, file), 'utf-8'));
+      } catch {
+        return false; // Deleted while resolving
+      }
+    });
+    if (markers.length > 0) return false;
+
+    // Task branches are already free of protected changes, so any left are the agent's
+    const touched = handlers.protectedFiles?.(await changedFiles(git)) ?? [];
+    if (touched.length > 0) {
+      throw new BoundaryViolationError(touched);
+    }
+
+    await git.add(['-A']);
+    if ((await conflictedFiles(git)).length > 0) return false;
+
+    await git.raw(['commit', '--no-edit']);
+    return true;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Files with unresolved merge conflicts
+ */
+async function conflictedFiles(git: SimpleGit): Promise<string[]> {
+  const output = await git.raw(['diff', '--name-only', '--diff-filter=U']);
+  return output.split('\n').filter(Boolean);
+}
+
+/**
+ * Files changed in the worktree since HEAD, including untracked ones
+ */
+async function changedFiles(git: SimpleGit): Promise<string[]> {
+  const tracked = await git.raw(['diff', '--name-only', 'HEAD']);
+  const untracked = await git.raw(['ls-files', '--others', '--exclude-standard']);
+  return `${tracked}${untracked}`.split('\n').filter(Boolean);
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface IntegrationHandlers {
+  /** Ask the agent to resolve conflicts in the integration worktree; true when it finished */
+  resolveConflicts: (worktreePath: string, merge: MergeContext) => Promise<boolean>;
+  /** Protected files among the given ones (boundaries.neverTouch) */
+  protectedFiles?: (files: string[]) => string[];
+  /** Validate the merged result; throws when it fails (omitted with --fast) */
+  validate?: (worktreePath: string) => Promise<unknown>;
+}
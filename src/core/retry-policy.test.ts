@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  BudgetExceededError,
+  ExecutionError,
+  ReviewError,
+  TaskBlockedError,
+  ValidationError,
+} from './errors.ts';
+import { RetryPolicy } from './retry-policy.ts';
+
+const validationError = new ValidationError({
+  step: 'test',
+  command: 'bun test',
+  success: false,
+  exitCode: 1,
+  timedOut: false,
+  duration: 1000,
+  output: '1 fail',
+});
+
+describe('RetryPolicy', () => {
+  describe('delayFor', () => {
+    test('grows the delay by the multiplier after each attempt', () => {
+      const policy = new RetryPolicy({ backoffMs: 1000, backoffMultiplier: 3 });
+
+      expect([1, 2, 3].map((attempt) => policy.delayFor(attempt))).toEqual([1000, 3000, 9000]);
+    });
+
+    test('caps the delay at maxBackoffMs', () => {
+      const policy = new RetryPolicy({ backoffMs: 2000, maxBackoffMs: 5000 });
+
+      expect(policy.delayFor(2)).toBe(4000);
+      expect(policy.delayFor(3)).toBe(5000);
+    });
+  });
+
+  describe('classify', () => {
+    const policy = new RetryPolicy();
+
+    test('uses the kind of an execution error', () => {
+      expect(policy.classify(new ExecutionError('timeout', 'timed out'))).toBe('timeout');
+      expect(policy.classify(new ExecutionError('no-completion', 'no token'))).toBe(
+        'no-completion'
+      );
+    });
+
+    test('classifies validation and review failures', () => {
+      expect(policy.classify(validationError)).toBe('validation');
+      expect(policy.classify(new ReviewError({ passed: false, verdicts: [] }))).toBe('review');
+    });
+
+    test('never retries budget, blocked or unknown errors', () => {
+      expect(policy.classify(new BudgetExceededError('task', 'cost', 2, 1))).toBeNull();
+      expect(policy.classify(new TaskBlockedError('T00-001', 'Which database?'))).toBeNull();
+      expect(policy.classify(new Error('git push failed'))).toBeNull();
+    });
+  });
+
+  describe('shouldRetry', () => {
+    test('retries a listed failure kind until the attempts run out', () => {
+      const policy = new RetryPolicy({ maxAttempts: 3 });
+      const error = new ExecutionError('exit-code', 'exited with code 1');
+
+      expect(policy.shouldRetry(error, 1)).toBe(true);
+      expect(policy.shouldRetry(error, 2)).toBe(true);
+      expect(policy.shouldRetry(error, 3)).toBe(false);
+    });
+
+    test('skips failure kinds missing from retryOn', () => {
+      const policy = new RetryPolicy({ retryOn: ['timeout'] });
+
+      expect(policy.shouldRetry(new ExecutionError('timeout', 'timed out'), 1)).toBe(true);
+      expect(policy.shouldRetry(validationError, 1)).toBe(false);
+    });
+  });
+
+  describe('run', () => {
+    const policy = new RetryPolicy({ maxAttempts: 3, backoffMs: 0 });
+
+    test('retries until an attempt succeeds', async () => {
+      const retries: string[] = [];
+      const result = await policy.run(
+        async (attempt) => {
+          if (attempt < 3) throw new ExecutionError('timeout', `attempt ${attempt} timed out`);
+          return attempt;
+        },
+        async (error, attempt) => {
+          retries.push(`${attempt}: ${error.message}`);
+        }
+      );
+
+      expect(result).toBe(3);
+      expect(retries).toEqual(['1: attempt 1 timed out', '2: attempt 2 timed out']);
+    });
+
+    test('throws the last error once the attempts run out', async () => {
+      let attempts = 0;
+      const run = policy.run(
+        async (attempt) => {
+          attempts = attempt;
+          throw new ExecutionError('exit-code', `attempt ${attempt} failed`);
+        },
+        async () => {}
+      );
+
+      await expect(run).rejects.toThrow('attempt 3 failed');
+      expect(attempts).toBe(3);
+    });
+
+    test('throws a failure that is not retried right away', async () => {
+      let retried = false;
+      const run = policy.run(
+        async () => {
+          throw new BudgetExceededError('task', 'cost', 2, 1);
+        },
+        async () => {
+          retried = true;
+        }
+      );
+
+      await expect(run).rejects.toBeInstanceOf(BudgetExceededError);
+      expect(retried).toBe(false);
+    });
+  });
+});
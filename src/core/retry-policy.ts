@@ -0,0 +1,94 @@
+import { type FailureKind, type RetryConfig, RetryConfigSchema } from '../config/schemas.ts';
+import { ExecutionError, ReviewError, ValidationError } from './errors.ts';
+
+/**
+ * RetryPolicy decides whether a failed task attempt is retried and how long to wait.
+ * It is the single retry layer: engines are invoked with their own retries disabled.
+ */
+export class RetryPolicy {
+  private config: RetryConfig;
+
+  constructor(config?: Partial<RetryConfig>) {
+    const result = RetryConfigSchema.safeParse(config ?? {});
+    if (!result.success) {
+      throw new Error(`Invalid retry configuration: ${result.error.message}`);
+    }
+    this.config = result.data;
+  }
+
+  /**
+   * Agent runs allowed per task, including the first
+   */
+  get maxAttempts(): number {
+    return this.config.maxAttempts;
+  }
+
+  /**
+   * Whether retries build on the previous attempt's worktree
+   */
+  get keepWorktree(): boolean {
+    return this.config.keepWorktree;
+  }
+
+  /**
+   * Failure class of an error, or null for errors that are never retried
+   * (budget exhaustion, git or setup failures)
+   */
+  classify(error: unknown): FailureKind | null {
+    if (error instanceof ExecutionError) return error.kind;
+    if (error instanceof ValidationError) return 'validation';
+    if (error instanceof ReviewError) return 'review';
+    return null;
+  }
+
+  /**
+   * Whether to retry after the given (1-based) attempt failed with this error
+   */
+  shouldRetry(error: unknown, attempt: number): boolean {
+    const kind = this.classify(error);
+    return kind !== null && this.config.retryOn.includes(kind) && attempt < this.maxAttempts;
+  }
+
+  /**
+   * Delay before the attempt following the given (1-based) attempt
+   */
+  delayFor(attempt: number): number {
+    const delay = this.config.backoffMs * this.config.backoffMultiplier ** (attempt - 1);
+    return Math.min(delay, this.config.maxBackoffMs);
+  }
+
+  /**
+   * Run attempts until one succeeds or a failure is not retried, which is thrown.
+   * onRetry runs after each retried failure, before the backoff delay.
+   */
+  async run<T>(
+    attemptFn: (attempt: number) => Promise<T>,
+    onRetry: (error: Error, attempt: number, delay: number) => Promise<void>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await attemptFn(attempt);
+      } catch (error) {
+        const failure = error instanceof Error ? error : new Error(String(error));
+        if (!this.shouldRetry(failure, attempt)) {
+          throw failure;
+        }
+
+        const delay = this.delayFor(attempt);
+        await onRetry(failure, attempt, delay);
+        await sleep(delay);
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import simpleGit from 'simple-git';
+import { type Task, TaskSchema } from '../config/schemas.ts';
+import { ScopeViolationError } from './errors.ts';
+import { ScopeGuard } from './scope-guard.ts';
+import { WorktreeManager } from './worktree-manager.ts';
+
+function task(files: string[]): Task {
+  return TaskSchema.parse({ id: 'T00-001', name: 'Login form', files });
+}
+
+describe('ScopeGuard', () => {
+  describe('findOutOfScope', () => {
+    const guard = new ScopeGuard({ strict: true, allow: ['bun.lock'] });
+
+    test('accepts declared paths, directories, globs and allowed files', () => {
+      const files = ['src/login.ts', 'src/auth/session.ts', 'docs/login.md', 'bun.lock'];
+
+      expect(
+        guard.findOutOfScope(task(['./src/login.ts', 'src/auth/', 'docs/*.md']), files)
+      ).toEqual([]);
+    });
+
+    test('returns changed files outside the declared ones', () => {
+      expect(guard.findOutOfScope(task(['src/login.ts']), ['src/login.ts', 'src/db.ts'])).toEqual([
+        'src/db.ts',
+      ]);
+    });
+  });
+
+  describe('check', () => {
+    let dir: string;
+    let worktree: string;
+    let worktreeManager: WorktreeManager;
+
+    beforeEach(async () => {
+      dir = mkdtempSync(join(tmpdir(), 'scope-guard-'));
+      const repo = join(dir, 'repo');
+      await simpleGit().raw(['init', '-q', '-b', 'main', repo]);
+      const repoGit = simpleGit(repo)
+        .addConfig('user.name', 'Test')
+        .addConfig('user.email', 'test@example.com');
+      writeFileSync(join(repo, 'README.md'), '# Test\n');
+      await repoGit.add('.').commit('Initial commit');
+
+      worktreeManager = new WorktreeManager(repo, 'test', join(dir, 'worktrees'));
+      ({ worktreePath: worktree } = await worktreeManager.createWorktree('T00-001', {
+        baseBranch: 'main',
+      }));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    /** Change files in the task worktree, committing them as an agent might */
+    async function change(files: Record<string, string>, commit: boolean): Promise<void> {
+      for (const [file, content] of Object.entries(files)) {
+        mkdirSync(dirname(join(worktree, file)), { recursive: true });
+        writeFileSync(join(worktree, file), content);
+      }
+      if (commit) await simpleGit(worktree).add('.').commit('Agent commit');
+    }
+
+    test('reports committed and uncommitted files outside the scope', async () => {
+      await change({ 'src/login.ts': 'export {};\n', 'src/db.ts': 'export {};\n' }, true);
+      await change({ 'src/cache.ts': 'export {};\n' }, false);
+      const guard = new ScopeGuard({ strict: true });
+
+      const outOfScope = await guard.check(task(['src/login.ts']), worktreeManager, 'main');
+
+      expect(outOfScope.sort()).toEqual(['src/cache.ts', 'src/db.ts']);
+    });
+
+    test('fails on a committed out-of-scope file with onViolation: fail', async () => {
+      await change({ 'src/db.ts': 'export {};\n' }, true);
+      const guard = new ScopeGuard({ strict: true, onViolation: 'fail' });
+
+      await expect(
+        guard.check(task(['src/login.ts']), worktreeManager, 'main')
+      ).rejects.toBeInstanceOf(ScopeViolationError);
+    });
+
+    test('skips tasks without declared files', async () => {
+      await change({ 'src/db.ts': 'export {};\n' }, true);
+      const guard = new ScopeGuard({ strict: true, onViolation: 'fail' });
+
+      expect(await guard.check(task([]), worktreeManager, 'main')).toEqual([]);
+    });
+  });
+});
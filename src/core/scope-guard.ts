@@ -0,0 +1,55 @@
+import { minimatch } from 'minimatch';
+import { type ScopeConfig, ScopeConfigSchema, type Task } from '../config/schemas.ts';
+import { ScopeViolationError } from './errors.ts';
+import type { WorktreeManager } from './worktree-manager.ts';
+
+/**
+ * ScopeGuard compares a task's changes with the files it declares in Task.files.
+ * Declared entries may be paths, directories (`src/auth/`) or globs.
+ * Only active in strict mode and for tasks that declare files.
+ */
+export class ScopeGuard {
+  private config: ScopeConfig;
+
+  constructor(config?: Partial<ScopeConfig>) {
+    const result = ScopeConfigSchema.safeParse(config ?? {});
+    if (!result.success) {
+      throw new Error(`Invalid scope configuration: ${result.error.message}`);
+    }
+    this.config = result.data;
+  }
+
+  /**
+   * Changed files outside the task's scope
+   */
+  findOutOfScope(task: Task, files: string[]): string[] {
+    const patterns = [...task.files.map(toPattern), ...this.config.allow];
+    return files.filter(
+      (file) => !patterns.some((pattern) => minimatch(file, pattern, { dot: true }))
+    );
+  }
+
+  /**
+   * Check a worktree's changes since it forked from `baseBranch`, committed or not.
+   * Returns out-of-scope files to report, or throws when scope.onViolation is 'fail'.
+   */
+  async check(task: Task, worktreeManager: WorktreeManager, baseBranch: string): Promise<string[]> {
+    if (!this.config.strict || task.files.length === 0) return [];
+
+    const changed = await worktreeManager.getChangedFiles(task.id, baseBranch);
+    const outOfScope = this.findOutOfScope(task, changed);
+    if (outOfScope.length > 0 && this.config.onViolation === 'fail') {
+      throw new ScopeViolationError(task.id, outOfScope);
+    }
+
+    return outOfScope;
+  }
+}
+
+/**
+ * Treat directory entries as everything below them
+ */
+export function toPattern(entry: string): string {
+  const normalized = entry.replace(/^\.\//, '');
+  return normalized.endsWith('/') ? `${normalized}**` : normalized;
+}
@@ -4,9 +4,18 @@ import { dirname, join } from 'node:path';
 import {
   type Checkpoint,
   CheckpointSchema,
+  type CompletionMetadata,
+  type FailureKind,
+  type FilesMismatch,
+  type IntegrationResult,
+  type ReviewResult,
+  ReviewResultSchema,
   type Session,
   SessionSchema,
+  type TaskQuestion,
   type TaskStatus,
+  type ValidationStepResult,
+  ValidationStepResultSchema,
 } from '../config/schemas.ts';
 
 const SESSION_DB_DIR = '.atzentis';
@@ -71,10 +80,91 @@ export class SessionManager {
       )
     `);
 
+    // Columns added after the initial schema; existing databases are migrated in place
+    this.ensureColumns('sessions', {
+      blocked_tasks: "TEXT DEFAULT '[]'",
+      questions: "TEXT DEFAULT '{}'",
+      base_branches: "TEXT DEFAULT '{}'",
+      integration: "TEXT DEFAULT '{}'",
+      running_tasks: "TEXT DEFAULT '[]'", // Replaces current_task
+    });
+
+    this.ensureColumns('checkpoints', {
+      cost_usd: 'REAL',
+      input_tokens: 'INTEGER',
+      output_tokens: 'INTEGER',
+      attempt: 'INTEGER',
+      failure_kind: 'TEXT',
+      out_of_scope_files: 'TEXT',
+      fix_round: 'INTEGER',
+      completion: 'TEXT',
+      files_mismatch: 'TEXT',
+    });
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS validation_results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        attempt INTEGER,
+        step TEXT NOT NULL,
+        command TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        exit_code INTEGER,
+        timed_out INTEGER NOT NULL DEFAULT 0,
+        duration INTEGER NOT NULL,
+        output TEXT NOT NULL,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS review_results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        task_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        attempt INTEGER,
+        round INTEGER NOT NULL DEFAULT 0,
+        passed INTEGER NOT NULL,
+        verdicts TEXT NOT NULL,
+        summary TEXT,
+        FOREIGN KEY (session_id) REFERENCES sessions(id)
+      )
+    `);
+
+    this.ensureColumns('validation_results', {
+      fix_round: 'INTEGER',
+    });
+
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_checkpoints_session ON checkpoints(session_id)`);
+    this.db.run(
+      'CREATE INDEX IF NOT EXISTS idx_validation_task ON validation_results(session_id, task_id)'
+    );
+    this.db.run(
+      'CREATE INDEX IF NOT EXISTS idx_review_task ON review_results(session_id, task_id)'
+    );
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_project ON sessions(project)`);
   }
 
+  /**
+   * Add any missing columns to an existing table
+   */
+  private ensureColumns(table: string, columns: Record<string, string>): void {
+    const existing = new Set(
+      (this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(
+        (column) => column.name
+      )
+    );
+
+    for (const [name, type] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        this.db.run(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+      }
+    }
+  }
+
   /**
    * Create a new session
    */
@@ -96,15 +186,19 @@ export class SessionManager {
       phase,
       startedAt: now,
       lastCheckpointAt: undefined,
-      currentTask: null,
+      runningTasks: [],
       completedTasks: [],
       failedTasks: [],
       pendingTasks: tasks,
+      blockedTasks: [],
       worktrees: {},
       branches: {},
+      baseBranches: {},
       prs: {},
       checkpoints: [],
       errors: {},
+      questions: {},
+      integration: {},
     };
   }
 
@@ -122,9 +216,14 @@ export class SessionManager {
     const row = stmt.get(project) as SessionRow | undefined;
     if (!row) return null;
 
-    // Check if session has pending tasks (still active)
-    const pendingTasks = JSON.parse(row.pending_tasks);
-    if (pendingTasks.length === 0 && !row.current_task) {
+    // Check if session has pending, failed, blocked or running tasks (still active)
+    const remaining = [
+      row.pending_tasks,
+      row.failed_tasks,
+      row.blocked_tasks,
+      row.running_tasks,
+    ].flatMap((list) => JSON.parse(list));
+    if (remaining.length === 0 && !row.current_task) {
       return null; // Session completed
     }
 
@@ -160,6 +259,15 @@ export class SessionManager {
         prLink: cp.pr_link || undefined,
         duration: cp.duration || undefined,
         error: cp.error || undefined,
+        costUsd: cp.cost_usd ?? undefined,
+        inputTokens: cp.input_tokens ?? undefined,
+        outputTokens: cp.output_tokens ?? undefined,
+        attempt: cp.attempt ?? undefined,
+        failureKind: cp.failure_kind ?? undefined,
+        outOfScopeFiles: cp.out_of_scope_files ? JSON.parse(cp.out_of_scope_files) : undefined,
+        fixRound: cp.fix_round ?? undefined,
+        completion: cp.completion ? JSON.parse(cp.completion) : undefined,
+        filesMismatch: cp.files_mismatch ? JSON.parse(cp.files_mismatch) : undefined,
       })
     );
 
@@ -169,15 +277,25 @@ export class SessionManager {
       phase: row.phase,
       startedAt: row.started_at,
       lastCheckpointAt: row.last_checkpoint_at || undefined,
-      currentTask: row.current_task,
+      // Sessions written before running_tasks existed tracked a single current_task
+      runningTasks: [
+        ...new Set([
+          ...JSON.parse(row.running_tasks),
+          ...(row.current_task ? [row.current_task] : []),
+        ]),
+      ],
       completedTasks: JSON.parse(row.completed_tasks),
       failedTasks: JSON.parse(row.failed_tasks),
       pendingTasks: JSON.parse(row.pending_tasks),
+      blockedTasks: JSON.parse(row.blocked_tasks),
       worktrees: JSON.parse(row.worktrees),
       branches: JSON.parse(row.branches),
+      baseBranches: JSON.parse(row.base_branches),
       prs: JSON.parse(row.prs),
       checkpoints,
       errors: JSON.parse(row.errors),
+      questions: JSON.parse(row.questions),
+      integration: JSON.parse(row.integration),
     });
   }
 
@@ -188,39 +306,48 @@ export class SessionManager {
     const stmt = this.db.prepare(`
       UPDATE sessions SET
         last_checkpoint_at = ?,
-        current_task = ?,
+        current_task = NULL,
+        running_tasks = ?,
         completed_tasks = ?,
         failed_tasks = ?,
         pending_tasks = ?,
+        blocked_tasks = ?,
         worktrees = ?,
         branches = ?,
+        base_branches = ?,
         prs = ?,
-        errors = ?
+        errors = ?,
+        questions = ?,
+        integration = ?
       WHERE id = ?
     `);
 
     stmt.run(
       session.lastCheckpointAt || null,
-      session.currentTask,
+      JSON.stringify(session.runningTasks),
       JSON.stringify(session.completedTasks),
       JSON.stringify(session.failedTasks),
       JSON.stringify(session.pendingTasks),
+      JSON.stringify(session.blockedTasks),
       JSON.stringify(session.worktrees),
       JSON.stringify(session.branches),
+      JSON.stringify(session.baseBranches),
       JSON.stringify(session.prs),
       JSON.stringify(session.errors),
+      JSON.stringify(session.questions),
+      JSON.stringify(session.integration),
       session.id
     );
   }
 
   /**
-   * Start a task - move from pending to current
+   * Start a task - move from pending to running
    */
   startTask(sessionId: string, taskId: string): void {
     const session = this.getSession(sessionId);
     if (!session) throw new Error(`Session ${sessionId} not found`);
 
-    session.currentTask = taskId;
+    session.runningTasks = [...new Set([...session.runningTasks, taskId])];
     session.pendingTasks = session.pendingTasks.filter((t) => t !== taskId);
 
     this.updateSession(session);
@@ -237,6 +364,15 @@ export class SessionManager {
       prLink?: string;
       duration?: number;
       error?: string;
+      costUsd?: number;
+      inputTokens?: number;
+      outputTokens?: number;
+      attempt?: number;
+      failureKind?: FailureKind;
+      outOfScopeFiles?: string[];
+      fixRound?: number;
+      completion?: CompletionMetadata;
+      filesMismatch?: FilesMismatch;
     }
   ): void {
     const session = this.getSession(sessionId);
@@ -246,8 +382,12 @@ export class SessionManager {
 
     // Insert checkpoint
     const stmt = this.db.prepare(`
-      INSERT INTO checkpoints (session_id, timestamp, task_id, status, pr_link, duration, error)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO checkpoints (
+        session_id, timestamp, task_id, status, pr_link, duration, error,
+        cost_usd, input_tokens, output_tokens, attempt, failure_kind, out_of_scope_files,
+        fix_round, completion, files_mismatch
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       sessionId,
@@ -256,16 +396,32 @@ export class SessionManager {
       status,
       options?.prLink || null,
       options?.duration || null,
-      options?.error || null
+      options?.error || null,
+      options?.costUsd ?? null,
+      options?.inputTokens ?? null,
+      options?.outputTokens ?? null,
+      options?.attempt ?? null,
+      options?.failureKind ?? null,
+      options?.outOfScopeFiles?.length ? JSON.stringify(options.outOfScopeFiles) : null,
+      options?.fixRound ?? null,
+      options?.completion ? JSON.stringify(options.completion) : null,
+      options?.filesMismatch ? JSON.stringify(options.filesMismatch) : null
     );
 
-    // Update session state
+    // Update session state; in-progress checkpoints (fix-up rounds) keep the task running,
+    // any other status ends its run
     session.lastCheckpointAt = now;
-    session.currentTask = null;
+    session.runningTasks = session.runningTasks.filter((t) => t !== taskId);
+    if (status === 'in_progress') {
+      session.runningTasks.push(taskId);
+    }
 
+    // Every attempt gets a checkpoint; the task lists hold each task once
     if (status === 'completed') {
       session.completedTasks.push(taskId);
-    } else if (status === 'failed') {
+      session.failedTasks = session.failedTasks.filter((t) => t !== taskId);
+      session.blockedTasks = session.blockedTasks.filter((t) => t !== taskId);
+    } else if (status === 'failed' && !session.failedTasks.includes(taskId)) {
       session.failedTasks.push(taskId);
     }
 
@@ -312,6 +468,55 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Record a question the agent needs answered; the task waits in blockedTasks
+   * until it is answered
+   */
+  recordQuestion(sessionId: string, taskId: string, question: string): void {
+    const session = this.getSession(sessionId);
+    if (!session) throw new Error(`Session ${sessionId} not found`);
+
+    const questions = session.questions[taskId] ?? [];
+    questions.push({ question, askedAt: new Date().toISOString() });
+    session.questions[taskId] = questions;
+    if (!session.blockedTasks.includes(taskId)) {
+      session.blockedTasks.push(taskId);
+    }
+    session.failedTasks = session.failedTasks.filter((t) => t !== taskId);
+    this.updateSession(session);
+  }
+
+  /**
+   * Answer a blocked task's open question and queue the task again
+   */
+  answerQuestion(sessionId: string, taskId: string, answer: string): TaskQuestion {
+    const session = this.getSession(sessionId);
+    if (!session) throw new Error(`Session ${sessionId} not found`);
+
+    const open = session.questions[taskId]?.find((q) => q.answer === undefined);
+    if (!open || !session.blockedTasks.includes(taskId)) {
+      throw new Error(`Task ${taskId} is not waiting for an answer`);
+    }
+
+    open.answer = answer;
+    open.answeredAt = new Date().toISOString();
+    session.blockedTasks = session.blockedTasks.filter((t) => t !== taskId);
+    if (!session.pendingTasks.includes(taskId)) {
+      session.pendingTasks.push(taskId);
+    }
+
+    this.updateSession(session);
+    return open;
+  }
+
+  /**
+   * Get the answered questions of a task, oldest first
+   */
+  getAnsweredQuestions(sessionId: string, taskId: string): TaskQuestion[] {
+    const session = this.getSession(sessionId);
+    return session?.questions[taskId]?.filter((q) => q.answer !== undefined) ?? [];
+  }
+
   /**
    * Register a worktree for a task
    */
@@ -324,13 +529,27 @@ export class SessionManager {
   }
 
   /**
-   * Register a branch for a task
+   * Register a branch for a task and the branch it started from
    */
-  registerBranch(sessionId: string, taskId: string, branchName: string): void {
+  registerBranch(sessionId: string, taskId: string, branchName: string, baseBranch?: string): void {
     const session = this.getSession(sessionId);
     if (!session) throw new Error(`Session ${sessionId} not found`);
 
     session.branches[taskId] = branchName;
+    if (baseBranch) {
+      session.baseBranches[taskId] = baseBranch;
+    }
+    this.updateSession(session);
+  }
+
+  /**
+   * Record how a task branch merged into the phase integration branch
+   */
+  recordIntegration(sessionId: string, taskId: string, result: IntegrationResult): void {
+    const session = this.getSession(sessionId);
+    if (!session) throw new Error(`Session ${sessionId} not found`);
+
+    session.integration[taskId] = result;
     this.updateSession(session);
   }
 
@@ -345,6 +564,159 @@ export class SessionManager {
     this.updateSession(session);
   }
 
+  /**
+   * Store the captured outcome of a validation step
+   */
+  saveValidationResult(
+    sessionId: string,
+    taskId: string,
+    result: ValidationStepResult,
+    attempt?: number,
+    fixRound?: number
+  ): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO validation_results (
+        session_id, task_id, timestamp, attempt, fix_round, step, command,
+        success, exit_code, timed_out, duration, output
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      sessionId,
+      taskId,
+      new Date().toISOString(),
+      attempt ?? null,
+      fixRound ?? null,
+      result.step,
+      result.command,
+      result.success ? 1 : 0,
+      result.exitCode,
+      result.timedOut ? 1 : 0,
+      result.duration,
+      result.output
+    );
+  }
+
+  /**
+   * Get stored validation results for a task, oldest first
+   */
+  getValidationResults(sessionId: string, taskId: string): StoredValidationResult[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM validation_results
+      WHERE session_id = ? AND task_id = ?
+      ORDER BY id ASC
+    `);
+    const rows = stmt.all(sessionId, taskId) as ValidationResultRow[];
+
+    return rows.map((row) => ({
+      ...ValidationStepResultSchema.parse({
+        step: row.step,
+        command: row.command,
+        success: row.success === 1,
+        exitCode: row.exit_code,
+        timedOut: row.timed_out === 1,
+        duration: row.duration,
+        output: row.output,
+      }),
+      timestamp: row.timestamp,
+      attempt: row.attempt ?? undefined,
+      fixRound: row.fix_round ?? undefined,
+    }));
+  }
+
+  /**
+   * Store the reviewer's verdicts for a task (round 0 is the first review of an attempt)
+   */
+  saveReviewResult(
+    sessionId: string,
+    taskId: string,
+    result: ReviewResult,
+    attempt?: number,
+    round = 0
+  ): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO review_results (
+        session_id, task_id, timestamp, attempt, round, passed, verdicts, summary
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      sessionId,
+      taskId,
+      new Date().toISOString(),
+      attempt ?? null,
+      round,
+      result.passed ? 1 : 0,
+      JSON.stringify(result.verdicts),
+      result.summary ?? null
+    );
+  }
+
+  /**
+   * Get stored reviews for a task, oldest first
+   */
+  getReviewResults(sessionId: string, taskId: string): StoredReviewResult[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM review_results
+      WHERE session_id = ? AND task_id = ?
+      ORDER BY id ASC
+    `);
+    const rows = stmt.all(sessionId, taskId) as ReviewResultRow[];
+
+    return rows.map((row) => ({
+      ...ReviewResultSchema.parse({
+        passed: row.passed === 1,
+        verdicts: JSON.parse(row.verdicts),
+        summary: row.summary ?? undefined,
+      }),
+      timestamp: row.timestamp,
+      attempt: row.attempt ?? undefined,
+      round: row.round,
+    }));
+  }
+
+  /**
+   * Get agent spend for all attempts of a task in a session
+   */
+  getTaskSpend(sessionId: string, taskId: string): Spend {
+    return this.querySpend('session_id = ? AND task_id = ?', sessionId, taskId);
+  }
+
+  /**
+   * Get agent spend for a session
+   */
+  getSessionSpend(sessionId: string): Spend {
+    return this.querySpend('session_id = ?', sessionId);
+  }
+
+  /**
+   * Get agent spend for a phase across all of the project's sessions
+   */
+  getPhaseSpend(project: string, phase: string): Spend {
+    return this.querySpend(
+      'session_id IN (SELECT id FROM sessions WHERE project = ? AND lower(phase) = lower(?))',
+      project,
+      phase
+    );
+  }
+
+  /**
+   * Sum duration, tokens and cost over matching checkpoints
+   */
+  private querySpend(where: string, ...params: string[]): Spend {
+    const stmt = this.db.prepare(`
+      SELECT
+        COALESCE(SUM(duration), 0) AS duration,
+        COALESCE(SUM(COALESCE(input_tokens, 0) + COALESCE(output_tokens, 0)), 0) AS tokens,
+        COALESCE(SUM(cost_usd), 0) AS cost
+      FROM checkpoints
+      WHERE ${where}
+    `);
+    const row = stmt.get(...params) as { duration: number; tokens: number; cost: number };
+
+    return { durationMs: row.duration, tokens: row.tokens, costUsd: row.cost };
+  }
+
   /**
    * Get all sessions for a project
    */
@@ -362,10 +734,14 @@ export class SessionManager {
    */
   deleteSession(sessionId: string): void {
     const deleteCheckpoints = this.db.prepare('DELETE FROM checkpoints WHERE session_id = ?');
+    const deleteValidation = this.db.prepare('DELETE FROM validation_results WHERE session_id = ?');
+    const deleteReviews = this.db.prepare('DELETE FROM review_results WHERE session_id = ?');
     const deleteSession = this.db.prepare('DELETE FROM sessions WHERE id = ?');
 
     const transaction = this.db.transaction(() => {
       deleteCheckpoints.run(sessionId);
+      deleteValidation.run(sessionId);
+      deleteReviews.run(sessionId);
       deleteSession.run(sessionId);
     });
 
@@ -380,6 +756,37 @@ export class SessionManager {
   }
 }
 
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Agent spend summed over checkpoints
+ */
+export interface Spend {
+  durationMs: number;
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * Validation step result as stored for a task
+ */
+export interface StoredValidationResult extends ValidationStepResult {
+  timestamp: string;
+  attempt?: number;
+  fixRound?: number;
+}
+
+/**
+ * Reviewer verdicts as stored for a task
+ */
+export interface StoredReviewResult extends ReviewResult {
+  timestamp: string;
+  attempt?: number;
+  round: number;
+}
+
 // =============================================================================
 // Type definitions for database rows
 // =============================================================================
@@ -391,13 +798,18 @@ interface SessionRow {
   started_at: string;
   last_checkpoint_at: string | null;
   current_task: string | null;
+  running_tasks: string;
   completed_tasks: string;
   failed_tasks: string;
   pending_tasks: string;
+  blocked_tasks: string;
   worktrees: string;
   branches: string;
+  base_branches: string;
   prs: string;
   errors: string;
+  questions: string;
+  integration: string;
 }
 
 interface CheckpointRow {
@@ -409,4 +821,41 @@ interface CheckpointRow {
   pr_link: string | null;
   duration: number | null;
   error: string | null;
+  cost_usd: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  attempt: number | null;
+  failure_kind: string | null;
+  out_of_scope_files: string | null;
+  fix_round: number | null;
+  completion: string | null;
+  files_mismatch: string | null;
+}
+
+interface ValidationResultRow {
+  id: number;
+  session_id: string;
+  task_id: string;
+  timestamp: string;
+  attempt: number | null;
+  fix_round: number | null;
+  step: string;
+  command: string;
+  success: number;
+  exit_code: number | null;
+  timed_out: number;
+  duration: number;
+  output: string;
+}
+
+interface ReviewResultRow {
+  id: number;
+  session_id: string;
+  task_id: string;
+  timestamp: string;
+  attempt: number | null;
+  round: number;
+  passed: number;
+  verdicts: string;
+  summary: string | null;
 }
@@ -0,0 +1,1267 @@
+import { relative, resolve } from 'node:path';
+import { createSpinner } from 'nanospinner';
+import pc from 'picocolors';
+
+import type {
+  Checkpoint,
+  CompletionMetadata,
+  ExecutionResult,
+  FailureKind,
+  FailurePolicy,
+  FileConflictMode,
+  FilesMismatch,
+  ProjectConfig,
+  ReviewResult,
+  Task,
+} from '../config/schemas.ts';
+import { extractBlockedReason, extractCompletionMetadata } from '../engines/completion.ts';
+import {
+  type EngineRegistry,
+  type EngineSelection,
+  selectEngineForTask,
+} from '../engines/engine-registry.ts';
+import type { PromptBuilder, RetryContext } from '../prompt/builder.ts';
+import { BoundaryGuard } from './boundary-guard.ts';
+import { BudgetTracker } from './budget-tracker.ts';
+import {
+  BudgetExceededError,
+  ExecutionError,
+  ReviewError,
+  ScopeViolationError,
+  TaskBlockedError,
+  ValidationError,
+} from './errors.ts';
+import { GitConventions } from './git-conventions.ts';
+import { HooksExecutor } from './hooks-executor.ts';
+import { PhaseIntegrator } from './phase-integrator.ts';
+import type { RetryPolicy } from './retry-policy.ts';
+import { ScopeGuard } from './scope-guard.ts';
+import type { SessionManager } from './session-manager.ts';
+import { type TaskOutcome, TaskPool, type TaskPoolResult } from './task-pool.ts';
+import { TaskReviewer } from './task-reviewer.ts';
+import { type FileConflict, TaskScheduler } from './task-scheduler.ts';
+import { ValidationPipeline } from './validation-pipeline.ts';
+import type { WorktreeManager } from './worktree-manager.ts';
+
+/**
+ * TaskExecutor runs tasks through the shared pipeline used by run and resume:
+ * budgets, hooks, retries, boundary and scope checks, validation, commit and PR
+ */
+export class TaskExecutor {
+  private readonly hooksExecutor: HooksExecutor;
+  private readonly boundaryGuard: BoundaryGuard;
+  private readonly scopeGuard: ScopeGuard;
+  private readonly validationPipeline: ValidationPipeline;
+  private readonly reviewer: TaskReviewer;
+  private readonly gitConventions: GitConventions;
+  private readonly project: string;
+  private budgetTracker: BudgetTracker | null = null;
+  private integrator: PhaseIntegrator | null = null;
+  private baseBranch?: string; // Resolved in execute()
+
+  constructor(
+    private sessionManager: SessionManager,
+    private worktreeManager: WorktreeManager,
+    private promptBuilder: PromptBuilder,
+    private engineRegistry: EngineRegistry,
+    private projectConfig: ProjectConfig | null,
+    private engineSelection: EngineSelection,
+    private retryPolicy: RetryPolicy,
+    project: string,
+    cwd: string
+  ) {
+    this.project = project;
+    this.hooksExecutor = new HooksExecutor(projectConfig?.hooks, cwd);
+    this.boundaryGuard = new BoundaryGuard(projectConfig?.boundaries);
+    this.scopeGuard = new ScopeGuard(projectConfig?.scope);
+    this.validationPipeline = new ValidationPipeline(
+      projectConfig?.validation,
+      projectConfig?.commands
+    );
+    this.reviewer = new TaskReviewer(projectConfig?.review);
+    this.gitConventions = new GitConventions(projectConfig?.git, project);
+  }
+
+  async execute(
+    sessionId: string,
+    tasks: Task[],
+    options: TaskExecutionOptions
+  ): Promise<ExecutionSummary> {
+    // Validate dependencies and order tasks; the pool starts each as soon as it is ready,
+    // preferring tasks on the critical path when several are
+    const scheduler = new TaskScheduler();
+    const ordered = scheduler.prioritize(
+      scheduler
+        .buildExecutionWaves(
+          tasks,
+          [...(options.completed ?? []), ...(options.blocked ?? [])],
+          options.taskGroups,
+          options.fileConflicts
+        )
+        .flat()
+    );
+    this.budgetTracker = new BudgetTracker(
+      this.projectConfig?.budgets,
+      this.sessionManager,
+      sessionId,
+      this.project,
+      options.phase
+    );
+    this.baseBranch =
+      this.gitConventions.baseBranch ?? (await this.worktreeManager.detectBaseBranch());
+    this.integrator = new PhaseIntegrator(
+      this.projectConfig?.git?.integration,
+      this.worktreeManager,
+      options.phase,
+      this.baseBranch
+    );
+
+    // Run beforePhase hook
+    await this.hooksExecutor.beforePhase(this.project, options.phase);
+
+    const concurrency = options.parallel ? options.maxParallel : 1;
+    console.log(pc.cyan(`Executing ${tasks.length} tasks, up to ${concurrency} at a time\n`));
+
+    const fileConflicts = this.findFileConflicts(scheduler, tasks, concurrency, options);
+
+    // Dependents of blocked, skipped and (unless continue-all) failed tasks are
+    // skipped: checkpointed as blocked and left pending for resume
+    const skipReasons = new Map<string, string>();
+    const pool = new TaskPool(ordered, {
+      concurrency,
+      taskGroups: options.taskGroups,
+      fileConflicts: options.fileConflicts === 'serialize' ? fileConflicts : [],
+      runAfterFailure: options.onFailure === 'continue-all',
+      completed: options.completed,
+      blocked: options.blocked,
+      onSkip: (task, waitingOn) => {
+        const reason = waitingOn.map((dep) => `${dep.taskId} ${dep.reason}`).join(', ');
+        console.log(pc.yellow(`  ⏸ ${task.id}: skipped (${reason})`));
+        skipReasons.set(task.id, reason);
+        this.sessionManager.saveCheckpoint(sessionId, task.id, 'blocked', {
+          error: `Skipped: ${reason}`,
+        });
+      },
+    });
+
+    let result: TaskPoolResult;
+    try {
+      result = await pool.run((task) => this.runPoolTask(sessionId, task, options));
+    } finally {
+      this.printBudgetReport(tasks);
+    }
+
+    const waiting = [...(options.blocked ?? []), ...result.blocked];
+    this.printSummary(sessionId, result, waiting, skipReasons, options.onFailure);
+    this.printIntegrationReport(sessionId, tasks);
+
+    if (result.error !== undefined) {
+      throw result.error;
+    }
+
+    // Run onSuccess hook if no errors and nothing is left waiting
+    if (result.failed.length === 0 && waiting.length === 0) {
+      await this.hooksExecutor.onSuccess(this.project, options.phase);
+    }
+
+    return { failed: result.failed, blocked: waiting, skipped: result.skipped };
+  }
+
+  /**
+   * Tasks declaring overlapping files would produce conflicting branches: find
+   * and report the pairs that may run at the same time
+   */
+  private findFileConflicts(
+    scheduler: TaskScheduler,
+    tasks: Task[],
+    concurrency: number,
+    options: TaskExecutionOptions
+  ): FileConflict[] {
+    if (concurrency <= 1 || options.fileConflicts === 'ignore') return [];
+
+    const fileConflicts = scheduler.findFileConflicts(tasks, options.taskGroups);
+    for (const conflict of fileConflicts) {
+      const [a, b] = conflict.tasks;
+      const handling = options.fileConflicts === 'serialize' ? 'run one at a time' : 'may conflict';
+      console.log(
+        pc.yellow(`  ⚠ ${a} and ${b} both touch ${conflict.files.join(', ')}: ${handling}`)
+      );
+    }
+    if (fileConflicts.length > 0) console.log();
+
+    return fileConflicts;
+  }
+
+  /**
+   * Run one task for the pool and report how it ended. Throws to stop the run
+   * (fail-fast, or an exceeded phase or session budget).
+   */
+  private async runPoolTask(
+    sessionId: string,
+    task: Task,
+    options: TaskExecutionOptions
+  ): Promise<TaskOutcome> {
+    try {
+      await this.executeTaskWithRetry(sessionId, task, options.fast);
+      return 'completed';
+    } catch (error) {
+      // A blocked task waits for an answer; independent tasks carry on
+      if (error instanceof TaskBlockedError) {
+        return 'blocked';
+      }
+
+      // Run onError hook
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      await this.hooksExecutor.onError(this.project, errorMsg, task);
+
+      // fail-fast stops starting tasks; a shared (phase or session) budget
+      // stops any run
+      if (
+        options.onFailure === 'fail-fast' ||
+        (error instanceof BudgetExceededError && error.scope !== 'task')
+      ) {
+        throw error;
+      }
+      return 'failed';
+    }
+  }
+
+  private async executeTaskWithRetry(sessionId: string, task: Task, fast: boolean): Promise<void> {
+    let retryContext: RetryContext | undefined;
+
+    await this.retryPolicy.run(
+      (attempt) => this.executeTask(sessionId, task, fast, attempt, retryContext),
+      async (error, attempt, delay) => {
+        retryContext = await this.prepareRetry(task, attempt, error, delay);
+      }
+    );
+
+    // Success - resolve any previous errors
+    this.sessionManager.resolveError(sessionId, task.id);
+  }
+
+  /**
+   * Announce a retry, carry the failure into the next prompt and clean up the
+   * worktree unless retries fix up incrementally
+   */
+  private async prepareRetry(
+    task: Task,
+    attempt: number,
+    error: Error,
+    delay: number
+  ): Promise<RetryContext> {
+    const { maxAttempts, keepWorktree } = this.retryPolicy;
+    console.log(
+      pc.yellow(
+        `  Retry ${attempt}/${maxAttempts - 1} for ${task.id} ` +
+          `(${this.retryPolicy.classify(error)}) in ${Math.round(delay / 1000)}s...`
+      )
+    );
+
+    const retryContext = await this.buildRetryContext(task, attempt + 1, error, keepWorktree);
+
+    if (!keepWorktree) {
+      try {
+        await this.worktreeManager.removeWorktree(task.id);
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+
+    return retryContext;
+  }
+
+  /**
+   * Collect what went wrong in an attempt: the error, failing validation output
+   * and the changes the agent made
+   */
+  private async buildRetryContext(
+    task: Task,
+    attempt: number,
+    error: Error,
+    keepWorktree: boolean
+  ): Promise<RetryContext> {
+    let diff: string | undefined;
+    try {
+      diff = (await this.worktreeManager.getDiff(task.id, { includeUntracked: true })) || undefined;
+    } catch {
+      // No worktree (e.g. it failed to be created)
+    }
+
+    return {
+      attempt,
+      error: error.message,
+      validationStep: error instanceof ValidationError ? error.step : undefined,
+      validationOutput: error instanceof ValidationError ? error.output : undefined,
+      diff,
+      worktreeKept: keepWorktree,
+    };
+  }
+
+  private async executeTask(
+    sessionId: string,
+    task: Task,
+    fast: boolean,
+    attempt: number,
+    retryContext?: RetryContext
+  ): Promise<void> {
+    const spinner = createSpinner(`${task.id}: ${task.name}`).start();
+
+    // Run beforeTask hook
+    await this.hooksExecutor.beforeTask(this.project, task);
+
+    let success = false;
+    let result: ExecutionResult | undefined;
+    const outcome: AttemptOutcome = { outOfScope: [] };
+    try {
+      const worktree = await this.startAttempt(sessionId, task);
+
+      spinner.update({ text: `${task.id}: Building prompt...` });
+
+      // Build prompt, including answers to questions asked while blocked
+      const prompt = await this.promptBuilder.build(task, {
+        retryContext,
+        answers: this.sessionManager.getAnsweredQuestions(sessionId, task.id),
+      });
+
+      // Execute with the engine selected for this task
+      const run = await this.runAgent(task, prompt, worktree.worktreePath, spinner);
+      result = run.result;
+      this.assertAgentCompleted(task, run);
+
+      // The agent's completion report (follow-up prompts only ask for the bare token)
+      outcome.completion =
+        extractCompletionMetadata(result.output, this.promptBuilder.getCompletionPattern()) ??
+        undefined;
+
+      // Protected files: fail the task or revert them before validation and commit
+      await this.enforceBoundaries(task, worktree);
+
+      // Run the validation pipeline unless --fast, letting the agent fix failures
+      if (!fast) {
+        await this.validate(sessionId, task, worktree, attempt, spinner);
+      }
+
+      // Reviewer pass over the diff against the acceptance criteria
+      if (this.reviewer.appliesTo(task)) {
+        outcome.review = await this.review(sessionId, task, worktree, attempt, fast, spinner);
+      }
+
+      // Validation and review may have run the agent or tools again: check once more
+      await this.enforceBoundaries(task, worktree);
+
+      // Strict scope: report (or fail on) changes outside Task.files
+      outcome.outOfScope = await this.scopeGuard.check(
+        task,
+        this.worktreeManager,
+        worktree.baseBranch
+      );
+      if (outcome.outOfScope.length > 0) {
+        console.log(
+          pc.yellow(
+            `\n  ${task.id}: changes outside declared files: ${outcome.outOfScope.join(', ')}`
+          )
+        );
+      }
+
+      // Check the report against the final changes, after reverts, fix rounds and rework
+      outcome.filesMismatch = await this.checkReportedFiles(task, worktree, outcome.completion);
+
+      await this.publish(sessionId, task, worktree, outcome, fast, spinner);
+
+      // Save checkpoint
+      this.sessionManager.saveCheckpoint(sessionId, task.id, 'completed', {
+        duration: result.duration,
+        attempt,
+        outOfScopeFiles: outcome.outOfScope,
+        completion: outcome.completion,
+        filesMismatch: outcome.filesMismatch,
+        ...usageOf(result),
+      });
+
+      success = true;
+      const cost = result.costUsd !== undefined ? pc.dim(` ($${result.costUsd.toFixed(2)})`) : '';
+      spinner.success({ text: pc.green(`${task.id}: ${task.name} ✓`) + cost });
+    } catch (error) {
+      this.recordFailure(sessionId, task, error, attempt, result, outcome);
+      if (error instanceof TaskBlockedError) {
+        spinner.warn({ text: pc.yellow(`${task.id}: ${task.name} ⏸ blocked`) });
+      } else {
+        spinner.error({ text: pc.red(`${task.id}: ${task.name} ✗`) });
+      }
+      throw error;
+    } finally {
+      // Run afterTask hook
+      await this.hooksExecutor.afterTask(this.project, task, success);
+    }
+  }
+
+  /**
+   * Mark the task as started and create its worktree, stacked on the
+   * dependencies' branches if configured
+   */
+  private async startAttempt(sessionId: string, task: Task): Promise<TaskWorktree> {
+    // Refuse to start once a budget is spent
+    this.budgetTracker?.assertCanStart(task.id);
+
+    this.sessionManager.startTask(sessionId, task.id);
+
+    const stackOn = this.stackedBaseBranches(sessionId, task);
+    const worktree = await this.worktreeManager.createWorktree(task.id, {
+      baseBranch: this.baseBranch,
+      branchName: this.gitConventions.branchName(task),
+      stackOn,
+    });
+    this.sessionManager.registerWorktree(sessionId, task.id, worktree.worktreePath);
+    this.sessionManager.registerBranch(
+      sessionId,
+      task.id,
+      worktree.branchName,
+      worktree.baseBranch
+    );
+
+    return { ...worktree, stacked: stackOn.length > 0 };
+  }
+
+  /**
+   * Throw unless the agent run finished with the completion token: a spent
+   * budget, a blocked signal or a failed run
+   */
+  private assertAgentCompleted(
+    task: Task,
+    run: { result: ExecutionResult; budgetExceeded?: BudgetExceededError }
+  ): void {
+    if (run.budgetExceeded) {
+      throw run.budgetExceeded;
+    }
+
+    this.assertNotBlocked(task, run.result);
+
+    if (!run.result.success || !run.result.completed) {
+      throw ExecutionError.fromResult(run.result);
+    }
+  }
+
+  /**
+   * Commit the task's changes, push the branch, open the PR and merge into the
+   * integration branch. Nothing happens when the agent changed nothing.
+   */
+  private async publish(
+    sessionId: string,
+    task: Task,
+    worktree: TaskWorktree,
+    outcome: AttemptOutcome,
+    fast: boolean,
+    spinner: Spinner
+  ): Promise<void> {
+    spinner.update({ text: `${task.id}: Committing changes...` });
+    if (!(await this.worktreeManager.hasUncommittedChanges(task.id))) return;
+
+    await this.worktreeManager.commitChanges(
+      task.id,
+      this.gitConventions.commitMessage(task, outcome.completion)
+    );
+
+    // Push and create PR
+    spinner.update({ text: `${task.id}: Pushing and creating PR...` });
+    await this.worktreeManager.pushBranch(task.id, { setUpstream: true });
+    if (worktree.stacked) {
+      // The PR base must exist on the remote
+      await this.worktreeManager.pushBranch(task.id, { branch: worktree.baseBranch });
+    }
+
+    const prUrl = await this.createPullRequest(task, worktree.worktreePath, {
+      baseBranch: worktree.baseBranch,
+      ...outcome,
+    });
+    if (prUrl) {
+      this.sessionManager.registerPR(sessionId, task.id, prUrl);
+    }
+
+    // Merge into the phase integration branch and validate the combined result
+    if (this.integrator?.enabled) {
+      await this.integrate(sessionId, task, worktree.branchName, fast, spinner);
+    }
+  }
+
+  /**
+   * Checkpoint a failed attempt. A blocked task stores its question and waits
+   * for an answer instead.
+   */
+  private recordFailure(
+    sessionId: string,
+    task: Task,
+    error: unknown,
+    attempt: number,
+    result: ExecutionResult | undefined,
+    outcome: AttemptOutcome
+  ): void {
+    if (error instanceof TaskBlockedError) {
+      this.sessionManager.recordQuestion(sessionId, task.id, error.question);
+      this.sessionManager.saveCheckpoint(sessionId, task.id, 'blocked', {
+        duration: result?.duration,
+        error: error.question,
+        attempt,
+        ...usageOf(result),
+      });
+      return;
+    }
+
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    this.sessionManager.recordError(sessionId, task.id, errorMsg);
+    this.sessionManager.saveCheckpoint(sessionId, task.id, 'failed', {
+      duration: result?.duration,
+      error: errorMsg,
+      attempt,
+      failureKind: this.retryPolicy.classify(error) ?? undefined,
+      outOfScopeFiles: error instanceof ScopeViolationError ? error.files : outcome.outOfScope,
+      completion: outcome.completion,
+      filesMismatch: outcome.filesMismatch,
+      ...usageOf(result),
+    });
+  }
+
+  /**
+   * Run the agent on a prompt in the task's worktree, terminating it as soon
+   * as a budget runs out
+   */
+  private async runAgent(
+    task: Task,
+    prompt: string,
+    worktreePath: string,
+    spinner: Spinner,
+    options?: { selection?: EngineSelection; taskId?: string }
+  ): Promise<{ result: ExecutionResult; budgetExceeded?: BudgetExceededError }> {
+    const { engine: engineType, model } =
+      options?.selection ?? selectEngineForTask(task, this.engineSelection);
+    const engine = this.engineRegistry.getByType(engineType);
+
+    spinner.update({ text: `${task.id}: Executing with ${engine.name}...` });
+
+    const controller = new AbortController();
+    const budget = this.budgetTracker?.track(task.id, (error) => controller.abort(error));
+
+    try {
+      const result = await engine.execute(prompt, {
+        workingDirectory: worktreePath,
+        dangerouslySkipPermissions: true,
+        model,
+        taskId: options?.taskId ?? task.id,
+        // Retries are handled by the retry policy, one agent run per attempt
+        maxRetries: 0,
+        outputFormat: this.projectConfig?.agent?.outputFormat,
+        signal: controller.signal,
+        onProgress: (event) => {
+          // Show what the agent is doing when the engine streams events
+          if (event.type === 'tool') {
+            const target = event.toolCall.target ? ` ${event.toolCall.target}` : '';
+            spinner.update({ text: `${task.id}: ${event.toolCall.name}${target}` });
+          } else if (event.type === 'usage') {
+            budget?.update(event.usage, event.costUsd);
+          }
+        },
+      });
+
+      // Engines without streaming report usage only once they finish
+      if (result.usage) {
+        budget?.update(result.usage, result.costUsd);
+      }
+
+      const reason = controller.signal.reason;
+      return {
+        result,
+        budgetExceeded: reason instanceof BudgetExceededError ? reason : undefined,
+      };
+    } finally {
+      budget?.stop();
+    }
+  }
+
+  /**
+   * Compare the files the agent reported in its completion metadata with the
+   * branch's actual changes, committed or not
+   */
+  private async checkReportedFiles(
+    task: Task,
+    worktree: TaskWorktree,
+    completion: CompletionMetadata | undefined
+  ): Promise<FilesMismatch | undefined> {
+    if (!completion?.filesChanged) return undefined;
+
+    const reported = new Set(
+      completion.filesChanged.map((file) => toWorktreePath(file, worktree.worktreePath))
+    );
+    const changed = new Set(
+      await this.worktreeManager.getChangedFiles(task.id, worktree.baseBranch)
+    );
+    const mismatch: FilesMismatch = {
+      unreported: [...changed].filter((file) => !reported.has(file)),
+      unchanged: [...reported].filter((file) => !changed.has(file)),
+    };
+
+    if (mismatch.unreported.length === 0 && mismatch.unchanged.length === 0) {
+      return undefined;
+    }
+
+    const parts = [
+      mismatch.unreported.length > 0 ? `not reported: ${mismatch.unreported.join(', ')}` : '',
+      mismatch.unchanged.length > 0
+        ? `reported but unchanged: ${mismatch.unchanged.join(', ')}`
+        : '',
+    ].filter(Boolean);
+    console.log(
+      pc.yellow(`\n  ${task.id}: reported files differ from the diff (${parts.join('; ')})`)
+    );
+    return mismatch;
+  }
+
+  /**
+   * Revert (or fail on) changes to protected files, committed or not
+   */
+  private async enforceBoundaries(task: Task, worktree: TaskWorktree): Promise<void> {
+    const reverted = await this.boundaryGuard.enforce(
+      task.id,
+      this.worktreeManager,
+      worktree.baseBranch
+    );
+    if (reverted.length > 0) {
+      console.log(pc.yellow(`\n  ${task.id}: reverted protected files: ${reverted.join(', ')}`));
+    }
+  }
+
+  /**
+   * Run the validation pipeline, storing each step's output. A failing step is
+   * sent back to the agent in the same worktree for up to `validation.fixRounds`
+   * rounds before the attempt fails.
+   */
+  private async validate(
+    sessionId: string,
+    task: Task,
+    worktree: TaskWorktree,
+    attempt: number,
+    spinner: Spinner
+  ): Promise<void> {
+    const maxRounds = this.validationPipeline.fixRounds;
+
+    for (let round = 0; ; round++) {
+      try {
+        await this.validationPipeline.run(worktree.worktreePath, {
+          onStepStart: (step) => spinner.update({ text: `${task.id}: Running ${step.name}...` }),
+          onStepResult: (stepResult) =>
+            this.sessionManager.saveValidationResult(
+              sessionId,
+              task.id,
+              stepResult,
+              attempt,
+              round || undefined
+            ),
+        });
+        return;
+      } catch (error) {
+        if (!(error instanceof ValidationError) || round >= maxRounds) {
+          throw error;
+        }
+
+        console.log(
+          pc.yellow(`\n  ${task.id}: ${error.message}, fix round ${round + 1}/${maxRounds}`)
+        );
+        await this.runFixRound(sessionId, task, worktree, attempt, round + 1, error, spinner);
+      }
+    }
+  }
+
+  /**
+   * Ask the agent to fix a failing validation step; each round is checkpointed
+   */
+  private async runFixRound(
+    sessionId: string,
+    task: Task,
+    worktree: TaskWorktree,
+    attempt: number,
+    round: number,
+    failure: ValidationError,
+    spinner: Spinner
+  ): Promise<void> {
+    const prompt = this.promptBuilder.buildFixPrompt(task, {
+      round,
+      maxRounds: this.validationPipeline.fixRounds,
+      step: failure.step,
+      command: failure.result.command,
+      output: failure.output,
+    });
+
+    await this.runFollowUp(sessionId, task, worktree, prompt, spinner, {
+      attempt,
+      error: failure.message,
+      failureKind: 'validation',
+      fixRound: round,
+    });
+  }
+
+  /**
+   * Review the changes against the acceptance criteria. Unmet criteria fail the
+   * attempt, or with `review.onFail: reprompt` go back to the agent (followed by
+   * validation and a new review) for up to `review.maxRounds` rounds.
+   */
+  private async review(
+    sessionId: string,
+    task: Task,
+    worktree: TaskWorktree,
+    attempt: number,
+    fast: boolean,
+    spinner: Spinner
+  ): Promise<ReviewResult> {
+    const maxRounds = this.reviewer.onFail === 'reprompt' ? this.reviewer.maxRounds : 0;
+
+    for (let round = 0; ; round++) {
+      const review = await this.runReview(sessionId, task, worktree, attempt, round, spinner);
+      if (review.passed) {
+        return review;
+      }
+
+      const failure = new ReviewError(review);
+      if (round >= maxRounds) {
+        throw failure;
+      }
+
+      const unmet = review.verdicts.filter((verdict) => !verdict.met);
+      console.log(
+        pc.yellow(
+          `\n  ${task.id}: ${unmet.length} acceptance criteria unmet, review round ${round + 1}/${maxRounds}`
+        )
+      );
+
+      const prompt = this.promptBuilder.buildReworkPrompt(task, {
+        round: round + 1,
+        maxRounds,
+        unmet,
+      });
+      await this.runFollowUp(sessionId, task, worktree, prompt, spinner, {
+        attempt,
+        error: failure.message,
+        failureKind: 'review',
+      });
+
+      if (!fast) {
+        await this.validate(sessionId, task, worktree, attempt, spinner);
+      }
+    }
+  }
+
+  /**
+   * Run the reviewer agent on the task's diff and store its verdicts
+   */
+  private async runReview(
+    sessionId: string,
+    task: Task,
+    worktree: TaskWorktree,
+    attempt: number,
+    round: number,
+    spinner: Spinner
+  ): Promise<ReviewResult> {
+    this.budgetTracker?.assertCanStart(task.id);
+    spinner.update({ text: `${task.id}: Reviewing...` });
+
+    const diff = await this.worktreeManager.getDiff(task.id, { includeUntracked: true });
+    const prompt = this.promptBuilder.buildReviewPrompt(task, diff);
+
+    // The reviewer may use its own engine and model
+    const taskSelection = selectEngineForTask(task, this.engineSelection);
+    const selection: EngineSelection = this.reviewer.engine
+      ? { engine: this.reviewer.engine, model: this.reviewer.model }
+      : { ...taskSelection, model: this.reviewer.model ?? taskSelection.model };
+
+    // The reviewer only reads: anything it changes in the worktree is put back
+    const snapshot = await this.worktreeManager.snapshotChanges(task.id);
+    const { result, budgetExceeded } = await this.runAgent(
+      task,
+      prompt,
+      worktree.worktreePath,
+      spinner,
+      {
+        selection,
+        taskId: `${task.id}:review`,
+      }
+    );
+    const reverted = await this.worktreeManager.restoreSnapshot(task.id, snapshot);
+    if (reverted.length > 0) {
+      console.log(
+        pc.yellow(`\n  ${task.id}: reverted files changed by the reviewer: ${reverted.join(', ')}`)
+      );
+    }
+
+    this.sessionManager.saveCheckpoint(sessionId, task.id, 'in_progress', {
+      duration: result.duration,
+      attempt,
+      ...usageOf(result),
+    });
+
+    if (budgetExceeded) {
+      throw budgetExceeded;
+    }
+
+    if (!result.success) {
+      throw ExecutionError.fromResult(result);
+    }
+
+    const review = this.reviewer.parse(task, result.output);
+    this.sessionManager.saveReviewResult(sessionId, task.id, review, attempt, round);
+    return review;
+  }
+
+  /**
+   * Run a follow-up prompt in the task's worktree (validation fix-up or review
+   * rework); each run is checkpointed
+   */
+  private async runFollowUp(
+    sessionId: string,
+    task: Task,
+    worktree: TaskWorktree,
+    prompt: string,
+    spinner: Spinner,
+    checkpoint: { attempt: number; error: string; failureKind: FailureKind; fixRound?: number }
+  ): Promise<void> {
+    this.budgetTracker?.assertCanStart(task.id);
+
+    const { result, budgetExceeded } = await this.runAgent(
+      task,
+      prompt,
+      worktree.worktreePath,
+      spinner
+    );
+
+    this.sessionManager.saveCheckpoint(sessionId, task.id, 'in_progress', {
+      duration: result.duration,
+      ...checkpoint,
+      ...usageOf(result),
+    });
+
+    if (budgetExceeded) {
+      throw budgetExceeded;
+    }
+
+    this.assertNotBlocked(task, result);
+
+    if (!result.success) {
+      throw ExecutionError.fromResult(result);
+    }
+
+    await this.enforceBoundaries(task, worktree);
+  }
+
+  /**
+   * Merge a completed task branch into the integration branch. Conflicts the agent
+   * could not resolve and failed validation are recorded for manual attention.
+   */
+  private async integrate(
+    sessionId: string,
+    task: Task,
+    branchName: string,
+    fast: boolean,
+    spinner: Spinner
+  ): Promise<void> {
+    if (!this.integrator) return;
+
+    spinner.update({ text: `${task.id}: Merging into integration branch...` });
+    const result = await this.integrator.merge(task.id, branchName, {
+      resolveConflicts: async (worktreePath, merge) => {
+        spinner.update({ text: `${task.id}: Resolving merge conflicts...` });
+        const prompt = this.promptBuilder.buildMergePrompt(task, merge);
+        const { result, budgetExceeded } = await this.runAgent(task, prompt, worktreePath, spinner);
+        return !budgetExceeded && result.success && result.completed;
+      },
+      protectedFiles: (files) => this.boundaryGuard.findViolations(files),
+      validate: fast
+        ? undefined
+        : (worktreePath) =>
+            this.validationPipeline.run(worktreePath, {
+              onStepStart: (step) =>
+                spinner.update({ text: `${task.id}: Running ${step.name} on integration...` }),
+            }),
+    });
+    this.sessionManager.recordIntegration(sessionId, task.id, result);
+
+    if (result.status !== 'merged') {
+      console.log(
+        pc.yellow(
+          `\n  ${task.id}: not merged into ${result.branch} (${result.error}), needs attention`
+        )
+      );
+    }
+  }
+
+  /**
+   * Branches of the task's dependencies completed in this session, when
+   * git.stackedBranches is on; empty otherwise
+   */
+  private stackedBaseBranches(sessionId: string, task: Task): string[] {
+    if (!this.projectConfig?.git?.stackedBranches) return [];
+
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) return [];
+
+    return task.dependencies.flatMap((dep) =>
+      session.completedTasks.includes(dep) && session.branches[dep] ? [session.branches[dep]] : []
+    );
+  }
+
+  /**
+   * Throw when the agent stopped with the blocked signal instead of completing
+   */
+  private assertNotBlocked(task: Task, result: ExecutionResult): void {
+    if (result.completed) return;
+
+    const question = extractBlockedReason(result.output, this.promptBuilder.getCompletionPattern());
+    if (question !== null) {
+      throw new TaskBlockedError(task.id, question);
+    }
+  }
+
+  /**
+   * Print what did not complete and why: failures, open questions, skipped
+   * dependents and tasks not started after a fail-fast stop
+   */
+  private printSummary(
+    sessionId: string,
+    result: TaskPoolResult,
+    waiting: string[],
+    skipReasons: Map<string, string>,
+    onFailure: FailurePolicy
+  ): void {
+    if (
+      result.failed.length === 0 &&
+      waiting.length === 0 &&
+      result.skipped.length === 0 &&
+      result.notStarted.length === 0
+    ) {
+      return;
+    }
+
+    const session = this.sessionManager.getSession(sessionId);
+
+    console.log(pc.bold('\n📋 Summary'));
+    console.log(`  ${pc.green('✓')} Completed: ${result.completed.length}`);
+    for (const taskId of result.failed) {
+      const error = session?.errors[taskId]?.lastError ?? '';
+      console.log(`  ${pc.red('✗')} ${taskId} failed${pc.dim(error ? ` - ${error}` : '')}`);
+    }
+    for (const taskId of waiting) {
+      const open = session?.questions[taskId]?.find((q) => q.answer === undefined);
+      console.log(
+        `  ${pc.yellow('⏸')} ${taskId} waiting for input${pc.dim(open ? ` - ${open.question}` : '')}`
+      );
+    }
+    for (const taskId of result.skipped) {
+      console.log(
+        `  ${pc.yellow('○')} ${taskId} skipped${pc.dim(` - ${skipReasons.get(taskId)}`)}`
+      );
+    }
+    if (result.notStarted.length > 0) {
+      const label = notStartedLabel(result, onFailure);
+      console.log(`  ${pc.dim('○')} ${label}: ${result.notStarted.join(', ')}`);
+    }
+
+    if (waiting.length > 0) {
+      console.log(
+        pc.dim('  Answer with "atzentis answer <taskId> <reply>", then "atzentis resume"')
+      );
+    } else {
+      console.log(pc.dim('  Run "atzentis resume" to retry failed and skipped tasks'));
+    }
+  }
+
+  /**
+   * Print where this run's tasks stand on the integration branch
+   */
+  private printIntegrationReport(sessionId: string, tasks: Task[]): void {
+    const integration = this.sessionManager.getSession(sessionId)?.integration ?? {};
+    const results = tasks.flatMap((task) => {
+      const result = integration[task.id];
+      return result ? [{ taskId: task.id, ...result }] : [];
+    });
+    if (results.length === 0) return;
+
+    console.log(pc.bold(`\n🔀 Integration (${results[0].branch})`));
+    for (const result of results) {
+      if (result.status === 'merged') {
+        const resolved = result.resolvedByAgent ? ' (conflicts resolved by the agent)' : '';
+        console.log(`  ${pc.green('✓')} ${result.taskId} merged${pc.dim(resolved)}`);
+      } else {
+        console.log(
+          `  ${pc.yellow('!')} ${result.taskId} needs attention${pc.dim(` - ${result.error}`)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Print spend against the configured budgets
+   */
+  private printBudgetReport(tasks: Task[]): void {
+    if (!this.budgetTracker?.enabled) return;
+
+    console.log(pc.bold('\n💰 Budget'));
+    for (const line of this.budgetTracker.formatReport(tasks.map((t) => t.id))) {
+      console.log(line.includes('(exceeded)') ? pc.red(`  ${line}`) : pc.dim(`  ${line}`));
+    }
+  }
+
+  private async createPullRequest(
+    task: Task,
+    worktreePath: string,
+    details: PullRequestDetails
+  ): Promise<string | null> {
+    const { spawn } = await import('node:child_process');
+    const { baseBranch, outOfScope, review, completion, filesMismatch } = details;
+
+    // The agent's own summary and test report
+    const tests =
+      completion?.testsRun === undefined
+        ? ''
+        : `\n**Tests:** ${completion.testsRun ? `run, ${completion.testsPassed ? 'passing' : 'failing'}` : 'not run'} (reported by the agent)\n`;
+    const summarySection = completion?.summary ? `\n${completion.summary}\n${tests}` : tests;
+
+    // Flag differences between the reported and the actual changed files
+    const mismatchSection = filesMismatch
+      ? `\n## Reported vs Actual Changes\n\n${[
+          ...filesMismatch.unreported.map((f) => `- \`${f}\` changed but not reported`),
+          ...filesMismatch.unchanged.map((f) => `- \`${f}\` reported but not changed`),
+        ].join('\n')}\n`
+      : '';
+
+    // Flag changes outside the task's declared files (strict scope)
+    const outOfScopeSection =
+      outOfScope.length > 0
+        ? `\n## Out-of-Scope Changes\n\nNot listed in the task's files:\n\n${outOfScope.map((f) => `- \`${f}\``).join('\n')}\n`
+        : '';
+
+    // Reviewer verdicts per acceptance criterion
+    const met = new Set(review?.verdicts.filter((v) => v.met).map((v) => v.criterion));
+    const reviewSection = review
+      ? `\n## Review\n\n${review.verdicts.map((v) => `- ${v.met ? '✅' : '❌'} ${v.criterion}${v.reason ? ` — ${v.reason}` : ''}`).join('\n')}\n${review.summary ? `\n${review.summary}\n` : ''}`
+      : '';
+
+    // Build PR body
+    const body = `## Summary
+
+- ${task.name}
+${task.description ? `\n${task.description}\n` : ''}${summarySection}
+## Acceptance Criteria
+
+${task.acceptanceCriteria.map((c) => `- [${met.has(c) ? 'x' : ' '}] ${c}`).join('\n') || '_No specific criteria_'}
+${reviewSection}
+## Files Changed
+
+${task.files.map((f) => `- \`${f}\``).join('\n') || '_See diff_'}
+${outOfScopeSection}${mismatchSection}
+---
+
+🤖 Generated with [Atzentis CLI](https://github.com/atzentis/atzentis-cli)
+`;
+
+    return new Promise((resolve) => {
+      const title = this.gitConventions.subject(task);
+      const proc = spawn(
+        'gh',
+        ['pr', 'create', '--title', title, '--body', body, '--draft', '--base', baseBranch],
+        {
+          cwd: worktreePath,
+          stdio: ['ignore', 'pipe', 'pipe'],
+        }
+      );
+
+      let stdout = '';
+      let stderr = '';
+
+      proc.stdout?.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      proc.stderr?.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      proc.on('close', (code) => {
+        if (code === 0) {
+          // gh pr create outputs the PR URL on success
+          const prUrl = stdout.trim();
+          resolve(prUrl || null);
+        } else {
+          // Log warning but don't fail the task
+          console.log(pc.yellow(`  Warning: Could not create PR: ${stderr.trim()}`));
+          resolve(null);
+        }
+      });
+
+      proc.on('error', () => {
+        // gh CLI might not be installed
+        console.log(pc.yellow('  Warning: gh CLI not available, skipping PR creation'));
+        resolve(null);
+      });
+    });
+  }
+}
+
+// =============================================================================
+// Command helpers (shared by run and resume)
+// =============================================================================
+
+/**
+ * Check that the run-level engine, per-task engine overrides and the reviewer engine are available
+ */
+export async function checkEnginesAvailable(
+  registry: EngineRegistry,
+  tasks: Task[],
+  selection: EngineSelection,
+  review?: ProjectConfig['review']
+): Promise<boolean> {
+  const engineTypes = new Set(tasks.map((task) => selectEngineForTask(task, selection).engine));
+  if (review?.enabled && review.engine) {
+    engineTypes.add(review.engine);
+  }
+
+  for (const engineType of engineTypes) {
+    const engineInfo = await registry.getEngineInfo(engineType);
+    if (!engineInfo?.available) {
+      console.error(
+        pc.red(`Error: Engine '${engineType}' not available. Please install it first.`)
+      );
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Print the outcome of an execution; failed tasks set a non-zero exit code
+ */
+export function reportExecution(summary: ExecutionSummary, successMessage: string): void {
+  if (summary.failed.length > 0) {
+    console.log(
+      pc.red(
+        `\n❌ ${summary.failed.length} task(s) failed, ${summary.skipped.length} dependent(s) skipped\n`
+      )
+    );
+    process.exitCode = 1;
+  } else if (summary.blocked.length > 0) {
+    console.log(
+      pc.yellow(
+        `\n⏸ ${summary.blocked.length} task(s) waiting for input, ${summary.skipped.length} dependent(s) skipped\n`
+      )
+    );
+  } else {
+    console.log(pc.green(`\n✅ ${successMessage}\n`));
+  }
+}
+
+/**
+ * Print an error that stopped execution and how to continue
+ */
+export function reportExecutionError(error: unknown): void {
+  console.error(pc.red('\n❌ Execution failed:'), error);
+  console.log(pc.dim('  Run "atzentis resume" to continue from checkpoint\n'));
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Extract cost and token usage from an execution result for checkpoints
+ */
+function usageOf(
+  result: ExecutionResult | undefined
+): Pick<Checkpoint, 'costUsd' | 'inputTokens' | 'outputTokens'> {
+  return {
+    costUsd: result?.costUsd,
+    inputTokens: result?.usage?.inputTokens,
+    outputTokens: result?.usage?.outputTokens,
+  };
+}
+
+/**
+ * Normalize a file path the agent reported (absolute, `./`-prefixed or relative)
+ * to a path relative to the worktree root
+ */
+function toWorktreePath(file: string, worktreePath: string): string {
+  return relative(worktreePath, resolve(worktreePath, file));
+}
+
+/**
+ * Summary label for tasks left when the pool stopped. Only a task failure under
+ * fail-fast names the policy; a shared budget also stops the run.
+ */
+function notStartedLabel(result: TaskPoolResult, onFailure: FailurePolicy): string {
+  const stoppedByFailure =
+    onFailure === 'fail-fast' &&
+    result.error !== undefined &&
+    !(result.error instanceof BudgetExceededError);
+  return stoppedByFailure ? 'Not started after the failure (fail-fast)' : 'Not started';
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type Spinner = ReturnType<typeof createSpinner>;
+
+/**
+ * A task's worktree for one attempt
+ */
+interface TaskWorktree {
+  worktreePath: string;
+  branchName: string;
+  /** Branch the task branch was created from */
+  baseBranch: string;
+  /** Based on a dependency's branch (git.stackedBranches) */
+  stacked: boolean;
+}
+
+/**
+ * What an attempt found out about the agent's changes
+ */
+interface AttemptOutcome {
+  /** Changed files outside the task's declared files */
+  outOfScope: string[];
+  review?: ReviewResult;
+  completion?: CompletionMetadata;
+  filesMismatch?: FilesMismatch;
+}
+
+/**
+ * Task outcome details rendered into the pull request body
+ */
+interface PullRequestDetails extends AttemptOutcome {
+  /** Branch to open the PR against */
+  baseBranch: string;
+}
+
+/**
+ * Tasks left waiting when execution ends
+ */
+export interface ExecutionSummary {
+  /** Tasks that failed all their attempts */
+  failed: string[];
+  /** Blocked tasks waiting for an answer */
+  blocked: string[];
+  /** Tasks not started because a dependency is blocked or failed */
+  skipped: string[];
+}
+
+export interface TaskExecutionOptions {
+  parallel: boolean;
+  maxParallel: number;
+  /** Run parallelGroups in order (parallelStrategy.taskGroups) */
+  taskGroups: boolean;
+  /** Handling of tasks with overlapping files (parallelStrategy.fileConflicts) */
+  fileConflicts: FileConflictMode;
+  /** What happens to the rest of the run after a task fails */
+  onFailure: FailurePolicy;
+  fast: boolean;
+  phase: string;
+  /** Tasks finished in an earlier run of the session; their dependents may start */
+  completed?: string[];
+  /** Tasks still waiting for an answer; their dependents are skipped */
+  blocked?: string[];
+}
@@ -1,7 +1,14 @@
 import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
 import { join } from 'node:path';
 import YAML from 'yaml';
-import { type Task, TaskSchema, PhaseMetaSchema, type PhaseMeta, type PhaseTaskEntry } from '../config/schemas.ts';
+import {
+  EngineTypeSchema,
+  type Task,
+  TaskSchema,
+  PhaseMetaSchema,
+  type PhaseMeta,
+  type PhaseTaskEntry,
+} from '../config/schemas.ts';
 import { getSpecsDir } from '../config/auto-detector.ts';
 
 /**
@@ -97,6 +104,7 @@ export async function loadTasks(
             task.estimate = `${metaTask.estimate}h`;
             // Use meta.json priority
             task.priority = metaTask.priority;
+            task.type = metaTask.type ?? task.type;
             // Map meta status to task status
             if (metaTask.status !== 'not_started') {
               const statusMap: Record<string, Task['status']> = {
@@ -176,7 +184,7 @@ export async function loadTaskFromDir(
     try {
       const content = readFileSync(yamlPath, 'utf-8');
       const data = YAML.parse(content);
-      return TaskSchema.parse({ ...data, id: taskId });
+      return TaskSchema.parse(withKnownEngine({ ...data, id: taskId }));
     } catch {
       // Fall through to markdown
     }
@@ -189,7 +197,7 @@ export async function loadTaskFromDir(
       const content = readFileSync(mdPath, 'utf-8');
       const task = parseTaskMarkdown(content, taskId);
       if (task) {
-        return TaskSchema.parse(task);
+        return TaskSchema.parse(withKnownEngine(task));
       }
     } catch {
       // Ignore parse errors
@@ -216,6 +224,21 @@ export async function loadTaskFromDir(
   };
 }
 
+/**
+ * Drop an unknown engine override with a warning, so one bad field does not
+ * discard the rest of the task's metadata
+ */
+function withKnownEngine<T extends { id?: string; engine?: unknown }>(task: T): T {
+  if (task.engine === undefined || EngineTypeSchema.safeParse(task.engine).success) {
+    return task;
+  }
+
+  console.warn(
+    `Warning: ${task.id} has unknown engine '${task.engine}'; using the run's engine. Expected one of: ${EngineTypeSchema.options.join(', ')}`
+  );
+  return { ...task, engine: undefined };
+}
+
 /**
  * Parse task from markdown with YAML frontmatter
  */
@@ -241,6 +264,7 @@ export function parseTaskMarkdown(
           frontmatter.acceptance_criteria || frontmatter.acceptanceCriteria || [],
         estimate: frontmatter.estimate,
         priority: frontmatter.priority,
+        type: frontmatter.type,
         // New fields
         phase: frontmatter.phase,
         requirements: frontmatter.requirements || [],
@@ -248,6 +272,9 @@ export function parseTaskMarkdown(
         testingRequirements:
           frontmatter.testing_requirements || frontmatter.testingRequirements || [],
         skills: frontmatter.skills || [],
+        // Agent overrides
+        engine: frontmatter.engine,
+        model: frontmatter.model,
       };
     } catch {
       // Ignore parse errors
@@ -0,0 +1,193 @@
+import { describe, expect, test } from 'bun:test';
+import { type Task, TaskSchema } from '../config/schemas.ts';
+import { type TaskOutcome, TaskPool, type TaskPoolOptions } from './task-pool.ts';
+
+function task(id: string, dependencies: string[] = [], parallelGroup = 1): Task {
+  return TaskSchema.parse({ id, name: id, dependencies, parallelGroup });
+}
+
+/**
+ * Run a pool whose tasks take `ticks` microtask turns (default 1) and end with
+ * the scripted outcome (default completed); records start and end events.
+ */
+async function runPool(
+  tasks: Task[],
+  options: Partial<TaskPoolOptions>,
+  script: Record<string, { outcome?: TaskOutcome | 'throw'; ticks?: number }> = {}
+) {
+  const events: string[] = [];
+  let active = 0;
+  let maxActive = 0;
+
+  const pool = new TaskPool(tasks, { concurrency: 1, taskGroups: true, ...options });
+  const result = await pool.run(async (task) => {
+    const { outcome = 'completed', ticks = 1 } = script[task.id] ?? {};
+    events.push(`start ${task.id}`);
+    maxActive = Math.max(maxActive, ++active);
+    for (let i = 0; i < ticks; i++) await null;
+    active--;
+    events.push(`end ${task.id}`);
+    if (outcome === 'throw') throw new Error(`${task.id} aborted`);
+    return outcome;
+  });
+
+  return { result, events, maxActive };
+}
+
+describe('TaskPool', () => {
+  test('runs independent tasks up to the concurrency limit', async () => {
+    const tasks = ['T00-001', 'T00-002', 'T00-003', 'T00-004'].map((id) => task(id));
+    const { result, maxActive } = await runPool(tasks, { concurrency: 2 });
+
+    expect(maxActive).toBe(2);
+    expect(result.completed.sort()).toEqual(['T00-001', 'T00-002', 'T00-003', 'T00-004']);
+    expect(result.notStarted).toEqual([]);
+  });
+
+  test('starts tasks in the given order when several are ready', async () => {
+    const tasks = [task('T00-003'), task('T00-001'), task('T00-002')];
+    const { events } = await runPool(tasks, {});
+
+    expect(events.filter((event) => event.startsWith('start'))).toEqual([
+      'start T00-003',
+      'start T00-001',
+      'start T00-002',
+    ]);
+  });
+
+  test('starts a task as soon as its dependencies complete, without wave barriers', async () => {
+    const tasks = [task('T00-001'), task('T00-002'), task('T00-003', ['T00-001'])];
+    const { events } = await runPool(tasks, { concurrency: 2 }, { 'T00-002': { ticks: 10 } });
+
+    expect(events.indexOf('start T00-003')).toBeGreaterThan(events.indexOf('end T00-001'));
+    expect(events.indexOf('start T00-003')).toBeLessThan(events.indexOf('end T00-002'));
+  });
+
+  test('treats dependencies completed in an earlier run as satisfied', async () => {
+    const { result } = await runPool([task('T00-002', ['T00-001'])], { completed: ['T00-001'] });
+
+    expect(result.completed).toEqual(['T00-002']);
+  });
+
+  describe('parallelGroups', () => {
+    const tasks = [task('T00-001', [], 1), task('T00-002', [], 1), task('T00-003', [], 2)];
+    const script = { 'T00-002': { ticks: 10 } };
+
+    test('wait for every task of an earlier group to settle', async () => {
+      const { events } = await runPool(tasks, { concurrency: 3 }, script);
+
+      expect(events.indexOf('start T00-003')).toBeGreaterThan(events.indexOf('end T00-002'));
+    });
+
+    test('count failed tasks as settled', async () => {
+      const { events, result } = await runPool(
+        tasks,
+        { concurrency: 3 },
+        { 'T00-001': { outcome: 'failed' } }
+      );
+
+      expect(result.completed).toContain('T00-003');
+      expect(events.indexOf('start T00-003')).toBeGreaterThan(events.indexOf('end T00-001'));
+    });
+
+    test('are ignored when task groups are off', async () => {
+      const { events } = await runPool(tasks, { concurrency: 3, taskGroups: false }, script);
+
+      expect(events.indexOf('start T00-003')).toBeLessThan(events.indexOf('end T00-002'));
+    });
+  });
+
+  describe('unreachable dependencies', () => {
+    const tasks = [
+      task('T00-001'),
+      task('T00-002', ['T00-001']),
+      task('T00-003', ['T00-002']),
+      task('T00-004'),
+    ];
+
+    test('skip dependents of a failed task transitively and run independent tasks', async () => {
+      const skipped: string[] = [];
+      const { result } = await runPool(
+        tasks,
+        {
+          onSkip: (skippedTask, waitingOn) =>
+            skipped.push(
+              `${skippedTask.id} <- ${waitingOn.map((dep) => `${dep.taskId} ${dep.reason}`)}`
+            ),
+        },
+        { 'T00-001': { outcome: 'failed' } }
+      );
+
+      expect(result.failed).toEqual(['T00-001']);
+      expect(result.skipped).toEqual(['T00-002', 'T00-003']);
+      expect(result.completed).toEqual(['T00-004']);
+      expect(skipped).toEqual(['T00-002 <- T00-001 failed', 'T00-003 <- T00-002 skipped']);
+    });
+
+    test('start dependents of a failed task with runAfterFailure', async () => {
+      const { result } = await runPool(
+        tasks,
+        { runAfterFailure: true },
+        { 'T00-001': { outcome: 'failed' } }
+      );
+
+      expect(result.skipped).toEqual([]);
+      expect(result.completed).toEqual(['T00-002', 'T00-003', 'T00-004']);
+    });
+
+    test('skip dependents of a task that blocks', async () => {
+      const { result } = await runPool(
+        tasks,
+        { runAfterFailure: true },
+        { 'T00-001': { outcome: 'blocked' } }
+      );
+
+      expect(result.blocked).toEqual(['T00-001']);
+      expect(result.skipped).toEqual(['T00-002', 'T00-003']);
+    });
+
+    test('skip dependents of tasks still blocked from an earlier run', async () => {
+      const { result, events } = await runPool(tasks.slice(1), { blocked: ['T00-001'] });
+
+      expect(result.skipped).toEqual(['T00-002', 'T00-003']);
+      expect(events).toEqual(['start T00-004', 'end T00-004']);
+    });
+  });
+
+  test('returns the error after running tasks settle and starts no further tasks', async () => {
+    const tasks = [task('T00-001'), task('T00-002'), task('T00-003'), task('T00-004')];
+    const { result, events } = await runPool(
+      tasks,
+      { concurrency: 2 },
+      { 'T00-001': { outcome: 'throw' }, 'T00-002': { ticks: 10 } }
+    );
+
+    expect((result.error as Error).message).toBe('T00-001 aborted');
+    expect(result.failed).toEqual(['T00-001']);
+    expect(result.completed).toEqual(['T00-002']);
+    expect(result.notStarted).toEqual(['T00-003', 'T00-004']);
+    expect(events.at(-1)).toBe('end T00-002');
+  });
+
+  test('keeps only the first error', async () => {
+    const { result } = await runPool(
+      [task('T00-001'), task('T00-002')],
+      { concurrency: 2 },
+      { 'T00-001': { outcome: 'throw' }, 'T00-002': { outcome: 'throw', ticks: 3 } }
+    );
+
+    expect((result.error as Error).message).toBe('T00-001 aborted');
+    expect(result.failed).toEqual(['T00-001', 'T00-002']);
+  });
+
+  test('never runs tasks with overlapping files at the same time', async () => {
+    const tasks = [task('T00-001'), task('T00-002'), task('T00-003')];
+    const { events } = await runPool(tasks, {
+      concurrency: 3,
+      fileConflicts: [{ tasks: ['T00-001', 'T00-002'], files: ['src/a.ts'] }],
+    });
+
+    expect(events.slice(0, 2)).toEqual(['start T00-001', 'start T00-003']);
+    expect(events.indexOf('start T00-002')).toBeGreaterThan(events.indexOf('end T00-001'));
+  });
+});
@@ -0,0 +1,195 @@
+import type { Task } from '../config/schemas.ts';
+import { type FileConflict, conflictsWith } from './task-scheduler.ts';
+
+/**
+ * TaskPool runs tasks with a rolling set of worker slots. A task starts as soon as
+ * its dependencies have completed, every task of an earlier parallelGroup has
+ * settled (unless task groups are off), no task with overlapping files is running
+ * (when `fileConflicts` are given) and a slot is free; there are no wave barriers
+ * between unrelated tasks.
+ * Tasks depending on a failed (unless `runAfterFailure`), blocked or skipped task
+ * are skipped.
+ */
+export class TaskPool {
+  private readonly pending: Task[];
+  private readonly running: Map<string, Promise<void>> = new Map();
+  private readonly runningGroups: Map<string, number> = new Map();
+  private readonly result: TaskPoolResult = {
+    completed: [],
+    failed: [],
+    blocked: [],
+    skipped: [],
+    notStarted: [],
+  };
+  private readonly done: Set<string>;
+  private readonly unreachable: Map<string, UnreachableReason>;
+
+  /**
+   * @param tasks Tasks in the order they should start when several are ready
+   */
+  constructor(
+    tasks: Task[],
+    private readonly options: TaskPoolOptions
+  ) {
+    this.pending = [...tasks];
+    this.done = new Set(options.completed);
+    this.unreachable = new Map(options.blocked?.map((id) => [id, 'blocked']));
+  }
+
+  /**
+   * Run all tasks. `runTask` reports how a task ended; if it throws, no further
+   * tasks are started and the error is returned once the running tasks settle.
+   */
+  async run(runTask: (task: Task) => Promise<TaskOutcome>): Promise<TaskPoolResult> {
+    let aborted = false;
+
+    while (true) {
+      if (!aborted) {
+        this.skipUnreachable();
+        for (const task of this.takeReady()) {
+          const promise = runTask(task).then(
+            (outcome) => this.settle(task, outcome),
+            (error) => {
+              if (!aborted) {
+                aborted = true;
+                this.result.error = error;
+              }
+              this.settle(task, 'failed');
+            }
+          );
+          this.running.set(task.id, promise);
+          this.runningGroups.set(task.id, task.parallelGroup);
+        }
+      }
+
+      if (this.running.size === 0) break;
+      await Promise.race(this.running.values());
+    }
+
+    this.result.notStarted = this.pending.map((task) => task.id);
+    return this.result;
+  }
+
+  /**
+   * Remove and return the ready tasks that fit in the free slots
+   */
+  private takeReady(): Task[] {
+    const ready: Task[] = [];
+
+    for (const task of [...this.pending]) {
+      if (this.running.size + ready.length >= this.options.concurrency) break;
+      if (!this.isReady(task, ready)) continue;
+
+      ready.push(task);
+      this.pending.splice(this.pending.indexOf(task), 1);
+    }
+
+    return ready;
+  }
+
+  /**
+   * @param starting Tasks taken in the same pass, about to start
+   */
+  private isReady(task: Task, starting: Task[]): boolean {
+    if (!task.dependencies.every((dep) => this.done.has(dep))) {
+      return false;
+    }
+
+    // Overlapping files act as a soft lock
+    const conflicts = this.options.fileConflicts ?? [];
+    const active = [...this.running.keys(), ...starting.map((other) => other.id)];
+    if (active.some((id) => conflictsWith(conflicts, task.id, id))) {
+      return false;
+    }
+
+    if (!this.options.taskGroups) return true;
+
+    // parallelGroups run in order: wait for every task of an earlier group
+    const earlierGroup = (group: number) => group < task.parallelGroup;
+    return (
+      ![...this.pending, ...starting].some((other) => earlierGroup(other.parallelGroup)) &&
+      ![...this.runningGroups.values()].some(earlierGroup)
+    );
+  }
+
+  /**
+   * Skip pending tasks (transitively) depending on a task that will not complete
+   */
+  private skipUnreachable(): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const task of [...this.pending]) {
+        const waitingOn = task.dependencies.flatMap((dep) => {
+          const reason = this.unreachable.get(dep);
+          return reason ? [{ taskId: dep, reason }] : [];
+        });
+        if (waitingOn.length === 0) continue;
+
+        this.pending.splice(this.pending.indexOf(task), 1);
+        this.unreachable.set(task.id, 'skipped');
+        this.result.skipped.push(task.id);
+        this.options.onSkip?.(task, waitingOn);
+        changed = true;
+      }
+    }
+  }
+
+  private settle(task: Task, outcome: TaskOutcome): void {
+    this.running.delete(task.id);
+    this.runningGroups.delete(task.id);
+    this.result[outcome].push(task.id);
+
+    // With runAfterFailure a failed dependency counts as settled for its dependents
+    if (outcome === 'completed' || (outcome === 'failed' && this.options.runAfterFailure)) {
+      this.done.add(task.id);
+    } else {
+      this.unreachable.set(task.id, outcome);
+    }
+  }
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How a task run ended
+ */
+export type TaskOutcome = 'completed' | 'failed' | 'blocked';
+
+/**
+ * Why a dependency will not complete in this run
+ */
+export type UnreachableReason = 'failed' | 'blocked' | 'skipped';
+
+export interface TaskPoolOptions {
+  /** Maximum number of tasks running at once */
+  concurrency: number;
+  /** Run parallelGroups in order; off schedules from the dependency graph only */
+  taskGroups: boolean;
+  /** Task pairs that never run at the same time (parallelStrategy.fileConflicts: serialize) */
+  fileConflicts?: FileConflict[];
+  /** Start dependents of failed tasks anyway (continue-all) */
+  runAfterFailure?: boolean;
+  /** Dependencies already satisfied (completed in an earlier run) */
+  completed?: string[];
+  /** Dependencies that will not complete in this run (waiting for an answer) */
+  blocked?: string[];
+  /** Called when a task is skipped because of the given dependencies */
+  onSkip?: (task: Task, waitingOn: { taskId: string; reason: UnreachableReason }[]) => void;
+}
+
+/**
+ * Task IDs by how they ended
+ */
+export interface TaskPoolResult {
+  completed: string[];
+  failed: string[];
+  blocked: string[];
+  skipped: string[];
+  /** Tasks left when the run was stopped */
+  notStarted: string[];
+  /** Error that stopped the run (thrown by `runTask`) */
+  error?: unknown;
+}
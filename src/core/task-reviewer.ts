@@ -0,0 +1,103 @@
+import {
+  type CriterionVerdict,
+  type EngineType,
+  type ReviewConfig,
+  ReviewConfigSchema,
+  type ReviewResult,
+  ReviewerOutputSchema,
+  type Task,
+} from '../config/schemas.ts';
+import { ReviewError } from './errors.ts';
+
+const REVIEW_PATTERN = /<review>([\s\S]*?)<\/review>/g;
+
+/**
+ * TaskReviewer turns a reviewer agent's output into per-criterion verdicts.
+ * The reviewer answers with JSON inside `<review></review>`; criteria it does
+ * not address count as unmet.
+ */
+export class TaskReviewer {
+  private config: ReviewConfig;
+
+  constructor(config?: Partial<ReviewConfig>) {
+    const result = ReviewConfigSchema.safeParse(config ?? {});
+    if (!result.success) {
+      throw new Error(`Invalid review configuration: ${result.error.message}`);
+    }
+    this.config = result.data;
+  }
+
+  /**
+   * Whether the review pass runs (tasks without acceptance criteria are skipped)
+   */
+  appliesTo(task: Task): boolean {
+    return this.config.enabled && task.acceptanceCriteria.length > 0;
+  }
+
+  /**
+   * Whether unmet criteria fail the attempt or re-prompt the agent
+   */
+  get onFail(): ReviewConfig['onFail'] {
+    return this.config.onFail;
+  }
+
+  /**
+   * Re-prompts allowed before the attempt fails
+   */
+  get maxRounds(): number {
+    return this.config.maxRounds;
+  }
+
+  /**
+   * Engine and model for the reviewer; unset falls back to the task's own
+   */
+  get engine(): EngineType | undefined {
+    return this.config.engine;
+  }
+
+  get model(): string | undefined {
+    return this.config.model;
+  }
+
+  /**
+   * Parse the reviewer output. Throws a ReviewError when no valid verdict is found.
+   */
+  parse(task: Task, output: string): ReviewResult {
+    const blocks = [...output.matchAll(REVIEW_PATTERN)];
+    const block = blocks[blocks.length - 1]?.[1];
+    const noVerdict = (reason: string) =>
+      new ReviewError(
+        { passed: false, verdicts: [] },
+        `Review failed: reviewer returned no valid verdict (${reason})`
+      );
+
+    if (!block) {
+      throw noVerdict('missing <review> block');
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(block.trim());
+    } catch {
+      throw noVerdict('invalid JSON');
+    }
+
+    const parsed = ReviewerOutputSchema.safeParse(json);
+    if (!parsed.success) {
+      throw noVerdict(parsed.error.issues[0]?.message ?? 'unexpected shape');
+    }
+
+    const verdicts: CriterionVerdict[] = task.acceptanceCriteria.map((criterion, index) => {
+      const verdict = parsed.data.verdicts.find((v) => v.criterion === index + 1);
+      return verdict
+        ? { criterion, met: verdict.met, reason: verdict.reason }
+        : { criterion, met: false, reason: 'Not assessed by the reviewer' };
+    });
+
+    return {
+      passed: verdicts.every((verdict) => verdict.met),
+      verdicts,
+      summary: parsed.data.summary,
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, expect, test } from 'bun:test';
+import { type Task, TaskSchema } from '../config/schemas.ts';
+import { TaskScheduler } from './task-scheduler.ts';
+
+function task(id: string, fields: Partial<Task> = {}): Task {
+  return TaskSchema.parse({ id, name: id, ...fields });
+}
+
+const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+
+describe('TaskScheduler', () => {
+  const scheduler = new TaskScheduler();
+
+  describe('analyzeCriticalPath', () => {
+    test('follows the longest estimated dependency chain', () => {
+      const analysis = scheduler.analyzeCriticalPath([
+        task('T00-001', { estimate: '2h' }),
+        task('T00-002', { estimate: '3h', dependencies: ['T00-001'] }),
+        task('T00-003', { estimate: '1h' }),
+      ]);
+
+      expect(analysis.criticalPath).toEqual(['T00-001', 'T00-002']);
+      expect(analysis.totalHours).toBe(5);
+      expect(Object.fromEntries(analysis.slack)).toEqual({
+        'T00-001': 0,
+        'T00-002': 0,
+        'T00-003': 4,
+      });
+    });
+
+    test('gives slack to a dependency that can start later than its sibling', () => {
+      const analysis = scheduler.analyzeCriticalPath([
+        task('T00-001', { estimate: '4h' }),
+        task('T00-002', { estimate: '1h' }),
+        task('T00-003', { estimate: '2h', dependencies: ['T00-001', 'T00-002'] }),
+      ]);
+
+      expect(analysis.criticalPath).toEqual(['T00-001', 'T00-003']);
+      expect(analysis.slack.get('T00-002')).toBe(3);
+    });
+
+    test('counts days as 8 hours', () => {
+      const analysis = scheduler.analyzeCriticalPath([task('T00-001', { estimate: '2d' })]);
+
+      expect(analysis.totalHours).toBe(16);
+    });
+
+    test('rounds away float noise from fractional estimates', () => {
+      const analysis = scheduler.analyzeCriticalPath([
+        task('T00-001', { estimate: '0.1h' }),
+        task('T00-002', { estimate: '0.2h', dependencies: ['T00-001'] }),
+        task('T00-003', { estimate: '0.3h' }),
+      ]);
+
+      expect(analysis.slack.get('T00-003')).toBe(0);
+    });
+
+    test('treats dependencies outside the task list as done', () => {
+      const analysis = scheduler.analyzeCriticalPath([
+        task('T00-002', { estimate: '3h', dependencies: ['T00-001'] }),
+      ]);
+
+      expect(analysis.criticalPath).toEqual(['T00-002']);
+      expect(analysis.totalHours).toBe(3);
+    });
+
+    test('has no critical path without estimates', () => {
+      const analysis = scheduler.analyzeCriticalPath([task('T00-001'), task('T00-002')]);
+
+      expect(analysis.criticalPath).toEqual([]);
+      expect(analysis.totalHours).toBe(0);
+    });
+
+    test('rejects a dependency cycle', () => {
+      const tasks = [
+        task('T00-001', { dependencies: ['T00-003'] }),
+        task('T00-002', { dependencies: ['T00-001'] }),
+        task('T00-003', { dependencies: ['T00-002'] }),
+      ];
+
+      expect(() => scheduler.analyzeCriticalPath(tasks)).toThrow(
+        'Circular dependency detected: T00-001 -> T00-003 -> T00-002 -> T00-001'
+      );
+    });
+  });
+
+  describe('prioritize', () => {
+    test('puts the least slack first', () => {
+      const tasks = [
+        task('T00-001', { estimate: '1h', priority: 'P0' }),
+        task('T00-002', { estimate: '5h', priority: 'P3' }),
+      ];
+
+      expect(ids(scheduler.prioritize(tasks))).toEqual(['T00-002', 'T00-001']);
+    });
+
+    test('breaks tied slack by priority, unset counting as P3', () => {
+      const tasks = [
+        task('T00-001', { estimate: '2h' }),
+        task('T00-002', { estimate: '2h', priority: 'P2' }),
+        task('T00-003', { estimate: '2h', priority: 'P0' }),
+      ];
+
+      expect(ids(scheduler.prioritize(tasks))).toEqual(['T00-003', 'T00-002', 'T00-001']);
+    });
+
+    test('keeps the input order for full ties', () => {
+      const tasks = [task('T00-003'), task('T00-001'), task('T00-002')];
+
+      expect(ids(scheduler.prioritize(tasks))).toEqual(['T00-003', 'T00-001', 'T00-002']);
+    });
+  });
+
+  describe('findFileConflicts', () => {
+    const conflictsOf = (a: string[], b: string[]) =>
+      scheduler.findFileConflicts([task('T00-001', { files: a }), task('T00-002', { files: b })]);
+
+    test('reports the same literal path', () => {
+      expect(conflictsOf(['src/a.ts', 'src/b.ts'], ['./src/a.ts'])).toEqual([
+        { tasks: ['T00-001', 'T00-002'], files: ['src/a.ts', './src/a.ts'] },
+      ]);
+    });
+
+    test('ignores different literal paths', () => {
+      expect(conflictsOf(['src/a.ts'], ['src/b.ts'])).toEqual([]);
+    });
+
+    test('reports a path matched by a glob', () => {
+      expect(conflictsOf(['src/**/*.ts'], ['src/auth/login.ts'])).toHaveLength(1);
+      expect(conflictsOf(['src/auth/login.ts'], ['src/*.ts'])).toEqual([]);
+    });
+
+    test('treats a directory entry as everything below it', () => {
+      expect(conflictsOf(['src/auth/'], ['src/auth/login.ts'])).toHaveLength(1);
+      expect(conflictsOf(['src/auth/'], ['src/authz.ts'])).toEqual([]);
+    });
+
+    test('compares globs by their literal directory prefix', () => {
+      expect(conflictsOf(['src/auth/*.ts'], ['src/**/*.test.ts'])).toHaveLength(1);
+      expect(conflictsOf(['src/auth/*.ts'], ['src/api/*.ts'])).toEqual([]);
+    });
+
+    test('ignores tasks that depend on each other, also transitively', () => {
+      const tasks = [
+        task('T00-001', { files: ['src/a.ts'] }),
+        task('T00-002', { dependencies: ['T00-001'] }),
+        task('T00-003', { files: ['src/a.ts'], dependencies: ['T00-002'] }),
+      ];
+
+      expect(scheduler.findFileConflicts(tasks)).toEqual([]);
+    });
+
+    test('ignores tasks in different parallelGroups unless task groups are off', () => {
+      const tasks = [
+        task('T00-001', { files: ['src/a.ts'], parallelGroup: 1 }),
+        task('T00-002', { files: ['src/a.ts'], parallelGroup: 2 }),
+      ];
+
+      expect(scheduler.findFileConflicts(tasks)).toEqual([]);
+      expect(scheduler.findFileConflicts(tasks, false)).toHaveLength(1);
+    });
+  });
+
+  describe('buildExecutionWaves', () => {
+    const tasks = [
+      task('T00-001', { files: ['src/a.ts'], estimate: '1h' }),
+      task('T00-002', { files: ['src/a.ts'], estimate: '3h' }),
+      task('T00-003', { estimate: '1h' }),
+    ];
+
+    test('orders each wave by urgency', () => {
+      expect(scheduler.buildExecutionWaves(tasks).map(ids)).toEqual([
+        ['T00-002', 'T00-001', 'T00-003'],
+      ]);
+    });
+
+    test('moves the less urgent of two conflicting tasks to a later wave when serializing', () => {
+      expect(scheduler.buildExecutionWaves(tasks, [], true, 'serialize').map(ids)).toEqual([
+        ['T00-002', 'T00-003'],
+        ['T00-001'],
+      ]);
+    });
+  });
+});
@@ -1,4 +1,9 @@
-import type { Task } from '../config/schemas.ts';
+import { minimatch } from 'minimatch';
+import type { FileConflictMode, Task } from '../config/schemas.ts';
+import { toPattern } from './scope-guard.ts';
+
+const PRIORITY_ORDER = { P0: 0, P1: 1, P2: 2, P3: 3 };
+const GLOB_CHARS = /[*?[{]/;
 
 /**
  * TaskScheduler handles wave-based parallel task execution.
@@ -8,16 +13,25 @@ export class TaskScheduler {
   /**
    * Build execution waves from a list of tasks.
    * Tasks in the same wave can be executed in parallel.
-   * Waves are ordered by parallelGroup and respect dependencies.
+   * Waves are ordered by parallelGroup and respect dependencies; with `taskGroups`
+   * off they follow the dependency graph only. With `fileConflicts` 'serialize',
+   * tasks whose files overlap are put in different waves.
+   * Dependencies listed in `alreadyCompleted` (e.g. when resuming) count as satisfied.
    */
-  buildExecutionWaves(tasks: Task[]): Task[][] {
+  buildExecutionWaves(
+    tasks: Task[],
+    alreadyCompleted: string[] = [],
+    taskGroups = true,
+    fileConflicts: FileConflictMode = 'ignore'
+  ): Task[][] {
     if (tasks.length === 0) return [];
 
     // First, validate dependencies exist
     const taskIds = new Set(tasks.map((t) => t.id));
+    const done = new Set(alreadyCompleted);
     for (const task of tasks) {
       for (const dep of task.dependencies) {
-        if (!taskIds.has(dep)) {
+        if (!taskIds.has(dep) && !done.has(dep)) {
           throw new Error(`Task ${task.id} depends on unknown task ${dep}`);
         }
       }
@@ -29,23 +43,32 @@ export class TaskScheduler {
     // Group tasks by parallelGroup
     const groups = new Map<number, Task[]>();
     for (const task of tasks) {
-      const group = groups.get(task.parallelGroup) || [];
+      const groupNum = taskGroups ? task.parallelGroup : 0;
+      const group = groups.get(groupNum) || [];
       group.push(task);
-      groups.set(task.parallelGroup, group);
+      groups.set(groupNum, group);
     }
 
     // Sort groups by number
     const sortedGroupNums = [...groups.keys()].sort((a, b) => a - b);
 
-    // Build waves respecting dependencies
+    // Build waves respecting dependencies, most urgent tasks first
     const allWaves: Task[][] = [];
-    const completed = new Set<string>();
+    const completed = new Set(done);
+    const analysis = this.analyzeCriticalPath(tasks);
+    const conflicts =
+      fileConflicts === 'serialize' ? this.findFileConflicts(tasks, taskGroups) : [];
 
     for (const groupNum of sortedGroupNums) {
       const groupTasks = groups.get(groupNum) || [];
 
       // Within a group, build multiple waves respecting dependencies
-      const groupWaves = this.buildWavesWithDependencies(groupTasks, completed);
+      const groupWaves = this.buildWavesWithDependencies(
+        groupTasks,
+        completed,
+        analysis,
+        conflicts
+      );
       for (const wave of groupWaves) {
         if (wave.length > 0) {
           allWaves.push(wave);
@@ -62,9 +85,16 @@ export class TaskScheduler {
   /**
    * Build multiple waves of tasks that can be executed in parallel,
    * respecting dependencies within the group.
-   * Returns an array of waves (each wave is an array of tasks that can run in parallel).
+   * Returns an array of waves (each wave is an array of tasks that can run in parallel),
+   * each ordered by critical-path slack, then priority. A task conflicting with a more
+   * urgent task of the wave moves to a later wave.
    */
-  private buildWavesWithDependencies(tasks: Task[], completed: Set<string>): Task[][] {
+  private buildWavesWithDependencies(
+    tasks: Task[],
+    completed: Set<string>,
+    analysis: CriticalPathAnalysis,
+    conflicts: FileConflict[]
+  ): Task[][] {
     const waves: Task[][] = [];
     const remaining = [...tasks];
     const allCompleted = new Set(completed);
@@ -75,14 +105,16 @@ export class TaskScheduler {
 
       // Find all tasks whose dependencies are satisfied by previously completed tasks
       // (not by tasks in the current wave - they must wait for the next wave)
-      for (let i = remaining.length - 1; i >= 0; i--) {
-        const task = remaining[i];
-        const depsCompleted = task.dependencies.every((dep) => allCompleted.has(dep));
+      const ready = remaining
+        .filter((task) => task.dependencies.every((dep) => allCompleted.has(dep)))
+        .sort((a, b) => this.compareUrgency(a, b, analysis));
 
-        if (depsCompleted) {
-          currentWave.push(task);
-          remaining.splice(i, 1);
+      for (const task of ready) {
+        if (currentWave.some((other) => conflictsWith(conflicts, task.id, other.id))) {
+          continue;
         }
+        currentWave.push(task);
+        remaining.splice(remaining.indexOf(task), 1);
       }
 
       if (currentWave.length === 0 && remaining.length > 0) {
@@ -104,6 +136,124 @@ export class TaskScheduler {
     return waves;
   }
 
+  /**
+   * Pairs of tasks whose Task.files overlap and that may run at the same time:
+   * neither depends (transitively) on the other and, with `taskGroups`, they share
+   * a parallelGroup. Overlap between two globs is judged by their literal prefixes,
+   * so it may be reported for globs that match no common file.
+   */
+  findFileConflicts(tasks: Task[], taskGroups = true): FileConflict[] {
+    const taskMap = new Map(tasks.map((t) => [t.id, t]));
+    const ancestors = new Map<string, Set<string>>();
+    const ancestorsOf = (task: Task): Set<string> => {
+      const cached = ancestors.get(task.id);
+      if (cached) return cached;
+
+      const result = new Set<string>();
+      for (const dep of task.dependencies) {
+        result.add(dep);
+        const depTask = taskMap.get(dep);
+        if (depTask) {
+          for (const id of ancestorsOf(depTask)) result.add(id);
+        }
+      }
+      ancestors.set(task.id, result);
+      return result;
+    };
+
+    const conflicts: FileConflict[] = [];
+    for (const [i, a] of tasks.entries()) {
+      for (const b of tasks.slice(i + 1)) {
+        if (taskGroups && a.parallelGroup !== b.parallelGroup) continue;
+        if (ancestorsOf(a).has(b.id) || ancestorsOf(b).has(a.id)) continue;
+
+        const files = overlappingFiles(a.files, b.files);
+        if (files.length > 0) {
+          conflicts.push({ tasks: [a.id, b.id], files });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Order tasks by urgency: least critical-path slack first, then priority.
+   * Ties keep their input order.
+   */
+  prioritize(tasks: Task[]): Task[] {
+    const analysis = this.analyzeCriticalPath(tasks);
+    return [...tasks].sort((a, b) => this.compareUrgency(a, b, analysis));
+  }
+
+  /**
+   * Critical path analysis from estimates and dependencies. A task's slack is how
+   * far it can slip without delaying the phase; tasks on the critical path have
+   * none. Dependencies outside `tasks` (e.g. completed earlier) take no time.
+   */
+  analyzeCriticalPath(tasks: Task[]): CriticalPathAnalysis {
+    this.detectCircularDependencies(tasks);
+
+    const taskMap = new Map(tasks.map((t) => [t.id, t]));
+    const duration = (task: Task) => this.parseEstimate(task.estimate);
+    const depsOf = (task: Task) => task.dependencies.flatMap((dep) => taskMap.get(dep) ?? []);
+    const dependentsOf = (task: Task) =>
+      tasks.filter((other) => other.dependencies.includes(task.id));
+
+    // Forward pass: earliest finish
+    const earliestFinish = new Map<string, number>();
+    const finishOf = (task: Task): number => {
+      const cached = earliestFinish.get(task.id);
+      if (cached !== undefined) return cached;
+
+      const start = Math.max(0, ...depsOf(task).map(finishOf));
+      earliestFinish.set(task.id, start + duration(task));
+      return start + duration(task);
+    };
+    const totalHours = Math.max(0, ...tasks.map(finishOf));
+
+    // Backward pass: latest finish that keeps the phase on time
+    const latestFinish = new Map<string, number>();
+    const latestOf = (task: Task): number => {
+      const cached = latestFinish.get(task.id);
+      if (cached !== undefined) return cached;
+
+      const latest = Math.min(
+        totalHours,
+        ...dependentsOf(task).map((dependent) => latestOf(dependent) - duration(dependent))
+      );
+      latestFinish.set(task.id, latest);
+      return latest;
+    };
+
+    // Rounded so fractional estimates do not leave float noise on the critical path
+    const slack = new Map(
+      tasks.map((t) => [t.id, Math.round((latestOf(t) - finishOf(t)) * 100) / 100])
+    );
+
+    // Walk back from the task finishing last along zero-slack dependencies
+    const criticalPath: string[] = [];
+    let current = totalHours > 0 ? tasks.find((t) => finishOf(t) === totalHours) : undefined;
+    while (current) {
+      criticalPath.unshift(current.id);
+      const start = finishOf(current) - duration(current);
+      current = depsOf(current).find((dep) => slack.get(dep.id) === 0 && finishOf(dep) === start);
+    }
+
+    return { criticalPath, slack, totalHours };
+  }
+
+  /**
+   * Compare two tasks by slack, then priority (P0 first)
+   */
+  private compareUrgency(a: Task, b: Task, analysis: CriticalPathAnalysis): number {
+    const slackA = analysis.slack.get(a.id) ?? 0;
+    const slackB = analysis.slack.get(b.id) ?? 0;
+    if (slackA !== slackB) return slackA - slackB;
+
+    return PRIORITY_ORDER[a.priority || 'P3'] - PRIORITY_ORDER[b.priority || 'P3'];
+  }
+
   /**
    * Detect circular dependencies using DFS
    */
@@ -153,8 +303,12 @@ export class TaskScheduler {
   /**
    * Calculate total estimated duration for tasks
    */
-  calculateEstimatedDuration(tasks: Task[]): { total: string; breakdown: WaveEstimate[] } {
-    const waves = this.buildExecutionWaves(tasks);
+  calculateEstimatedDuration(
+    tasks: Task[],
+    taskGroups = true,
+    fileConflicts: FileConflictMode = 'ignore'
+  ): { total: string; breakdown: WaveEstimate[] } {
+    const waves = this.buildExecutionWaves(tasks, [], taskGroups, fileConflicts);
     const breakdown: WaveEstimate[] = [];
     let totalHours = 0;
 
@@ -219,14 +373,32 @@ export class TaskScheduler {
   /**
    * Generate execution plan summary
    */
-  generateExecutionPlan(tasks: Task[]): ExecutionPlan {
-    const waves = this.buildExecutionWaves(tasks);
-    const estimate = this.calculateEstimatedDuration(tasks);
+  generateExecutionPlan(
+    tasks: Task[],
+    taskGroups = true,
+    fileConflicts: FileConflictMode = 'ignore'
+  ): ExecutionPlan {
+    const waves = this.buildExecutionWaves(tasks, [], taskGroups, fileConflicts);
+    const estimate = this.calculateEstimatedDuration(tasks, taskGroups, fileConflicts);
+    const analysis = this.analyzeCriticalPath(tasks);
+    const critical = new Set(analysis.criticalPath);
 
     const plan: ExecutionPlan = {
       totalTasks: tasks.length,
       totalWaves: waves.length,
       estimatedDuration: estimate.total,
+      criticalPath: {
+        tasks: analysis.criticalPath,
+        estimatedHours: analysis.totalHours,
+        duration: this.formatHours(analysis.totalHours),
+      },
+      fileConflicts:
+        fileConflicts === 'ignore'
+          ? []
+          : this.findFileConflicts(tasks, taskGroups).map((conflict) => ({
+              ...conflict,
+              serialized: fileConflicts === 'serialize',
+            })),
       waves: waves.map((wave, i) => ({
         number: i + 1,
         tasks: wave.map((t) => ({
@@ -235,6 +407,8 @@ export class TaskScheduler {
           estimate: t.estimate,
           dependencies: t.dependencies,
           priority: t.priority,
+          slackHours: analysis.slack.get(t.id) ?? 0,
+          critical: critical.has(t.id),
         })),
         parallel: wave.length > 1,
         estimatedHours: estimate.breakdown[i].estimatedHours,
@@ -281,9 +455,8 @@ export class TaskScheduler {
           return taskA.parallelGroup - taskB.parallelGroup;
         }
 
-        const priorityOrder = { P0: 0, P1: 1, P2: 2, P3: 3 };
-        const prioA = priorityOrder[taskA.priority || 'P3'];
-        const prioB = priorityOrder[taskB.priority || 'P3'];
+        const prioA = PRIORITY_ORDER[taskA.priority || 'P3'];
+        const prioB = PRIORITY_ORDER[taskB.priority || 'P3'];
         return prioA - prioB;
       });
 
@@ -311,6 +484,61 @@ export class TaskScheduler {
   }
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Whether two tasks are recorded as conflicting
+ */
+export function conflictsWith(conflicts: FileConflict[], a: string, b: string): boolean {
+  return conflicts.some((conflict) => conflict.tasks.includes(a) && conflict.tasks.includes(b));
+}
+
+/**
+ * Entries of either list that overlap an entry of the other
+ */
+function overlappingFiles(a: string[], b: string[]): string[] {
+  const files = new Set<string>();
+  for (const x of a) {
+    for (const y of b) {
+      if (entriesOverlap(x, y)) {
+        files.add(x);
+        files.add(y);
+      }
+    }
+  }
+  return [...files];
+}
+
+/**
+ * A path overlaps a glob it matches; two globs overlap when one literal prefix
+ * contains the other
+ */
+function entriesOverlap(a: string, b: string): boolean {
+  const patternA = toPattern(a);
+  const patternB = toPattern(b);
+  if (patternA === patternB) return true;
+
+  const globA = GLOB_CHARS.test(patternA);
+  const globB = GLOB_CHARS.test(patternB);
+  if (!globA && !globB) return false;
+  if (!globA) return minimatch(patternA, patternB, { dot: true });
+  if (!globB) return minimatch(patternB, patternA, { dot: true });
+
+  const prefixA = literalPrefix(patternA);
+  const prefixB = literalPrefix(patternB);
+  return prefixA.startsWith(prefixB) || prefixB.startsWith(prefixA);
+}
+
+/**
+ * Directory part of a glob before its first wildcard (e.g. `src/auth/` for `src/auth/*.ts`)
+ */
+function literalPrefix(pattern: string): string {
+  const literal = pattern.slice(0, pattern.search(GLOB_CHARS));
+  return literal.slice(0, literal.lastIndexOf('/') + 1);
+}
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -322,10 +550,37 @@ export interface WaveEstimate {
   parallel: boolean;
 }
 
+/**
+ * Result of critical path analysis
+ */
+export interface CriticalPathAnalysis {
+  /** Task IDs on the longest estimated dependency chain, first to last */
+  criticalPath: string[];
+  /** Hours each task can slip without delaying the phase */
+  slack: Map<string, number>;
+  /** Estimated hours along the critical path */
+  totalHours: number;
+}
+
+/**
+ * Two tasks that may run at the same time and declare overlapping files
+ */
+export interface FileConflict {
+  tasks: [string, string];
+  /** Overlapping Task.files entries of both tasks */
+  files: string[];
+}
+
 export interface ExecutionPlan {
   totalTasks: number;
   totalWaves: number;
   estimatedDuration: string;
+  criticalPath: {
+    tasks: string[];
+    estimatedHours: number;
+    duration: string;
+  };
+  fileConflicts: (FileConflict & { serialized: boolean })[];
   waves: {
     number: number;
     tasks: {
@@ -334,6 +589,8 @@ export interface ExecutionPlan {
       estimate?: string;
       dependencies: string[];
       priority?: string;
+      slackHours: number;
+      critical: boolean;
     }[];
     parallel: boolean;
     estimatedHours: number;
@@ -0,0 +1,136 @@
+import { spawn } from 'node:child_process';
+import {
+  type CommandsConfig,
+  type ValidationConfig,
+  ValidationConfigSchema,
+  type ValidationStep,
+  type ValidationStepResult,
+} from '../config/schemas.ts';
+import { ValidationError } from './errors.ts';
+
+// Steps derived from `commands` when validation.steps is not configured
+const DEFAULT_STEP_ORDER = ['typecheck', 'lint', 'build', 'test'] as const;
+
+// Output kept per step (the end of the output, where failures are reported)
+const MAX_OUTPUT_CHARS = 65536;
+
+/**
+ * ValidationPipeline runs ordered, named validation steps in a task worktree.
+ * Each step has its own timeout; the pipeline stops at the first failing step.
+ */
+export class ValidationPipeline {
+  readonly steps: ValidationStep[];
+  readonly fixRounds: number;
+  private defaultTimeout: number;
+
+  constructor(config?: Partial<ValidationConfig>, commands?: CommandsConfig) {
+    const result = ValidationConfigSchema.safeParse(config ?? {});
+    if (!result.success) {
+      throw new Error(`Invalid validation configuration: ${result.error.message}`);
+    }
+
+    this.defaultTimeout = result.data.timeout;
+    this.fixRounds = result.data.fixRounds;
+    this.steps = result.data.steps ?? stepsFromCommands(commands);
+  }
+
+  /**
+   * Run all steps. Results are reported as each step finishes; the first
+   * failure throws a ValidationError carrying that step's output.
+   */
+  async run(
+    cwd: string,
+    options?: {
+      onStepStart?: (step: ValidationStep) => void;
+      onStepResult?: (result: ValidationStepResult) => void;
+    }
+  ): Promise<ValidationStepResult[]> {
+    const results: ValidationStepResult[] = [];
+
+    for (const step of this.steps) {
+      options?.onStepStart?.(step);
+      const result = await this.runStep(step, cwd);
+      results.push(result);
+      options?.onStepResult?.(result);
+
+      if (!result.success) {
+        throw new ValidationError(result);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a single step through the shell, capturing stdout and stderr
+   */
+  private runStep(step: ValidationStep, cwd: string): Promise<ValidationStepResult> {
+    const timeout = step.timeout ?? this.defaultTimeout;
+
+    return new Promise((resolve) => {
+      const startTime = Date.now();
+      let output = '';
+      let timedOut = false;
+
+      const proc = spawn(step.command, [], {
+        cwd,
+        shell: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, CI: 'true' },
+        // Own process group so a timeout also stops the command's children
+        detached: true,
+      });
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          if (proc.pid) process.kill(-proc.pid, 'SIGTERM');
+        } catch {
+          proc.kill('SIGTERM');
+        }
+      }, timeout);
+
+      const collect = (data: Buffer) => {
+        output = (output + data.toString()).slice(-MAX_OUTPUT_CHARS);
+      };
+      proc.stdout?.on('data', collect);
+      proc.stderr?.on('data', collect);
+
+      proc.on('close', (code) => {
+        clearTimeout(timer);
+        resolve({
+          step: step.name,
+          command: step.command,
+          success: code === 0 && !timedOut,
+          exitCode: code,
+          timedOut,
+          duration: Date.now() - startTime,
+          output,
+        });
+      });
+
+      proc.on('error', (err) => {
+        clearTimeout(timer);
+        resolve({
+          step: step.name,
+          command: step.command,
+          success: false,
+          exitCode: null,
+          timedOut: false,
+          duration: Date.now() - startTime,
+          output: `Failed to run ${step.name}: ${err.message}`,
+        });
+      });
+    });
+  }
+}
+
+/**
+ * Build the default pipeline from the configured commands
+ */
+function stepsFromCommands(commands?: CommandsConfig): ValidationStep[] {
+  return DEFAULT_STEP_ORDER.flatMap((name) => {
+    const command = commands?.[name];
+    return command ? [{ name, command }] : [];
+  });
+}
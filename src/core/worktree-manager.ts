@@ -1,5 +1,5 @@
-import { existsSync, rmSync } from 'node:fs';
-import { join } from 'node:path';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
 import simpleGit, { type SimpleGit } from 'simple-git';
 
 const DEFAULT_WORKTREE_DIR = '/tmp/atzentis-cli-worktrees';
@@ -33,7 +33,7 @@ export class WorktreeManager {
   }
 
   /**
-   * Get the branch name for a task
+   * Get the default branch name for a task (git.branchTemplate names branches in runs)
    */
   getBranchName(taskId: string, taskSlug?: string): string {
     const slug = taskSlug ? `-${taskSlug}` : '';
@@ -41,23 +41,71 @@ export class WorktreeManager {
   }
 
   /**
-   * Create a worktree for a task
+   * Get the integration branch name for a phase
+   */
+  getIntegrationBranchName(phase: string): string {
+    return `${this.project}/${phase.toLowerCase()}-integration`;
+  }
+
+  /**
+   * Create (or reuse) the worktree of a phase's integration branch, starting from
+   * `baseBranch` or the detected base branch
+   */
+  async createIntegrationWorktree(
+    phase: string,
+    options?: { baseBranch?: string }
+  ): Promise<{ worktreePath: string; branchName: string }> {
+    const worktreePath = join(
+      this.worktreeBaseDir,
+      this.project,
+      `${phase.toLowerCase()}-integration`
+    );
+    const branchName = this.getIntegrationBranchName(phase);
+    const baseBranch = options?.baseBranch || (await this.detectBaseBranch());
+
+    if (existsSync(worktreePath)) {
+      return { worktreePath, branchName };
+    }
+
+    const branches = await this.git.branch();
+    const branchExists =
+      branches.all.includes(branchName) || branches.all.includes(`remotes/origin/${branchName}`);
+
+    if (branchExists) {
+      await this.git.raw(['worktree', 'add', worktreePath, branchName]);
+    } else {
+      await this.git.raw(['worktree', 'add', '-b', branchName, worktreePath, baseBranch]);
+    }
+
+    return { worktreePath, branchName };
+  }
+
+  /**
+   * Create a worktree for a task, branched from `baseBranch` or the detected base
+   * branch. With `stackOn`, the branch starts from the given dependency branch;
+   * several are merged into a `<branch>-base` branch first.
+   * Returns the branch the task started from.
    */
   async createWorktree(
     taskId: string,
     options?: {
       baseBranch?: string;
-      taskSlug?: string;
+      branchName?: string;
+      stackOn?: string[];
     }
-  ): Promise<{ worktreePath: string; branchName: string }> {
+  ): Promise<{ worktreePath: string; branchName: string; baseBranch: string }> {
     const worktreePath = this.getWorktreePath(taskId);
-    const branchName = this.getBranchName(taskId, options?.taskSlug);
-    const baseBranch = options?.baseBranch || 'develop';
+    const branchName = options?.branchName || this.getBranchName(taskId);
+    const stackOn = options?.stackOn ?? [];
+    const baseBranch =
+      stackOn.length > 1
+        ? `${branchName}-base`
+        : stackOn[0] || options?.baseBranch || (await this.detectBaseBranch());
 
     // Check if worktree already exists
     if (existsSync(worktreePath)) {
       // Worktree exists, just return the paths
-      return { worktreePath, branchName };
+      return { worktreePath, branchName, baseBranch };
     }
 
     // Fetch latest to ensure we have the base branch
@@ -75,12 +123,34 @@ export class WorktreeManager {
     if (branchExists) {
       // Branch exists, create worktree using existing branch
       await this.git.raw(['worktree', 'add', worktreePath, branchName]);
+    } else if (stackOn.length > 1) {
+      // Octopus-merge the dependency branches into the base, then branch off it
+      await this.git.raw(['worktree', 'add', '-B', baseBranch, worktreePath, stackOn[0]]);
+      await this.mergeIntoWorktree(taskId, stackOn.slice(1));
+      await this.getWorktreeGit(taskId).raw(['checkout', '-b', branchName]);
     } else {
       // Create new branch and worktree from base
       await this.git.raw(['worktree', 'add', '-b', branchName, worktreePath, baseBranch]);
     }
 
-    return { worktreePath, branchName };
+    return { worktreePath, branchName, baseBranch };
+  }
+
+  /**
+   * Merge branches into a freshly created worktree. On conflicts the merge is
+   * aborted and the worktree removed.
+   */
+  private async mergeIntoWorktree(taskId: string, branches: string[]): Promise<void> {
+    const worktreeGit = this.getWorktreeGit(taskId);
+    try {
+      // merge() rejects on conflicts (raw() would resolve)
+      await worktreeGit.merge(['--no-edit', ...branches]);
+    } catch (error) {
+      await worktreeGit.raw(['merge', '--abort']).catch(() => {});
+      await this.removeWorktree(taskId, { force: true });
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not merge ${branches.join(', ')} for ${taskId}: ${message}`);
+    }
   }
 
   /**
@@ -165,17 +235,19 @@ export class WorktreeManager {
   }
 
   /**
-   * Push a branch to remote
+   * Push a branch to remote (by default the one checked out in the task's worktree)
    */
   async pushBranch(
     taskId: string,
     options?: {
       setUpstream?: boolean;
       remote?: string;
+      branch?: string;
     }
   ): Promise<void> {
     const worktreeGit = this.getWorktreeGit(taskId);
-    const branchName = this.getBranchName(taskId);
+    const branchName =
+      options?.branch ?? (await worktreeGit.revparse(['--abbrev-ref', 'HEAD'])).trim();
     const remote = options?.remote || 'origin';
 
     if (options?.setUpstream !== false) {
@@ -186,20 +258,98 @@ export class WorktreeManager {
   }
 
   /**
-   * Get changed files in a worktree
+   * Get changed files in a worktree: uncommitted changes and, with `baseBranch`,
+   * files committed on the branch since it forked from the base
    */
-  async getChangedFiles(taskId: string): Promise<string[]> {
+  async getChangedFiles(taskId: string, baseBranch?: string): Promise<string[]> {
     const worktreeGit = this.getWorktreeGit(taskId);
-    const status = await worktreeGit.status();
+    const status = await worktreeGit.status(['--untracked-files=all']);
+    const committed = baseBranch
+      ? await worktreeGit.raw(['diff', '--name-only', `${baseBranch}...HEAD`])
+      : '';
 
     return [
-      ...status.created,
-      ...status.modified,
-      ...status.renamed.map((r) => r.to),
-      ...status.deleted,
+      ...new Set([
+        ...committed.split('\n').filter(Boolean),
+        ...status.created,
+        ...status.not_added,
+        ...status.modified,
+        ...status.renamed.map((r) => r.to),
+        ...status.deleted,
+      ]),
     ];
   }
 
+  /**
+   * Discard changes to files in a worktree: tracked files are restored from HEAD,
+   * or with `baseBranch` from where the branch forked (undoing committed changes
+   * too); files that did not exist there are removed
+   */
+  async revertFiles(taskId: string, files: string[], baseBranch?: string): Promise<void> {
+    const worktreeGit = this.getWorktreeGit(taskId);
+    const worktreePath = this.getWorktreePath(taskId);
+    const source = baseBranch
+      ? (await worktreeGit.raw(['merge-base', baseBranch, 'HEAD'])).trim()
+      : 'HEAD';
+
+    for (const file of files) {
+      const inSource = await worktreeGit
+        .raw(['cat-file', '-e', `${source}:${file}`])
+        .then(() => true)
+        .catch(() => false);
+
+      if (inSource) {
+        await worktreeGit.raw(['checkout', source, '--', file]);
+      } else {
+        await worktreeGit.raw(['rm', '-q', '--cached', '--ignore-unmatch', '--', file]);
+        rmSync(join(worktreePath, file), { force: true });
+      }
+    }
+  }
+
+  /**
+   * Record the content of a worktree's changed files (null for deleted files)
+   */
+  async snapshotChanges(taskId: string): Promise<WorktreeSnapshot> {
+    const worktreePath = this.getWorktreePath(taskId);
+    const snapshot: WorktreeSnapshot = new Map();
+
+    for (const file of await this.getChangedFiles(taskId)) {
+      const path = join(worktreePath, file);
+      snapshot.set(file, existsSync(path) ? readFileSync(path) : null);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Put a worktree's changes back to a snapshot: files changed since are restored
+   * to their recorded content or reverted. Returns the files that were restored.
+   */
+  async restoreSnapshot(taskId: string, snapshot: WorktreeSnapshot): Promise<string[]> {
+    const worktreePath = this.getWorktreePath(taskId);
+    const current = await this.snapshotChanges(taskId);
+    const restored: string[] = [];
+
+    for (const file of new Set([...snapshot.keys(), ...current.keys()])) {
+      const before = snapshot.get(file);
+      const after = current.get(file);
+      if (before === after || (before && after && before.equals(after))) continue;
+
+      restored.push(file);
+      if (before === undefined) {
+        await this.revertFiles(taskId, [file]);
+      } else if (before === null) {
+        rmSync(join(worktreePath, file), { force: true });
+      } else {
+        mkdirSync(dirname(join(worktreePath, file)), { recursive: true });
+        writeFileSync(join(worktreePath, file), before);
+      }
+    }
+
+    return restored;
+  }
+
   /**
    * Check if worktree has uncommitted changes
    */
@@ -212,12 +362,24 @@ export class WorktreeManager {
   /**
    * Get the diff for a worktree
    */
-  async getDiff(taskId: string, options?: { staged?: boolean }): Promise<string> {
+  async getDiff(
+    taskId: string,
+    options?: { staged?: boolean; includeUntracked?: boolean }
+  ): Promise<string> {
     const worktreeGit = this.getWorktreeGit(taskId);
 
     if (options?.staged) {
       return worktreeGit.diff(['--cached']);
     }
+    if (options?.includeUntracked) {
+      // Diff new files against /dev/null so the index is left untouched
+      const untracked = await worktreeGit.raw(['ls-files', '--others', '--exclude-standard']);
+      const diffs = [await worktreeGit.diff(['HEAD'])];
+      for (const file of untracked.split('\n').filter(Boolean)) {
+        diffs.push(await worktreeGit.raw(['diff', '--no-index', '--', '/dev/null', file]));
+      }
+      return diffs.join('');
+    }
     return worktreeGit.diff();
   }
 
@@ -261,6 +423,21 @@ export class WorktreeManager {
     return result.current;
   }
 
+  /**
+   * Get the remote's default branch (its HEAD). When it is unknown, develop if that
+   * branch exists, else the current branch.
+   */
+  async detectBaseBranch(remote = 'origin'): Promise<string> {
+    const ref = await this.git
+      .raw(['symbolic-ref', '--short', `refs/remotes/${remote}/HEAD`])
+      .catch(() => '');
+    const remoteHead = ref.trim().replace(`${remote}/`, '');
+    if (remoteHead) return remoteHead;
+
+    const branches = await this.git.branchLocal();
+    return branches.all.includes('develop') ? 'develop' : branches.current;
+  }
+
   /**
    * Get remote URL
    */
@@ -279,6 +456,11 @@ export class WorktreeManager {
 // Types
 // =============================================================================
 
+/**
+ * Content of changed files by path; null for deleted files
+ */
+export type WorktreeSnapshot = Map<string, Buffer | null>;
+
 export interface WorktreeInfo {
   path: string;
   head?: string;
@@ -0,0 +1,222 @@
+import type { EngineProgressEvent, TokenUsage, ToolCall } from '../config/schemas.ts';
+
+// Tools whose input names a file the agent wrote to
+const FILE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+/**
+ * ClaudeStreamParser consumes `claude --output-format stream-json` output as it arrives.
+ * It emits progress events per line and accumulates the final text, tool calls,
+ * edited files, token usage and cost for the ExecutionResult.
+ */
+export class ClaudeStreamParser {
+  private buffer = '';
+  private textParts: string[] = [];
+  private resultText: string | null = null;
+  private toolCalls: ToolCall[] = [];
+  private filesEdited = new Set<string>();
+  private usage: TokenUsage = emptyUsage();
+  private seenMessages = new Set<string>();
+  private costUsd: number | undefined;
+  private errorMessage: string | undefined;
+
+  /**
+   * Feed a chunk of stdout; returns progress events for complete lines
+   */
+  push(chunk: string): EngineProgressEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+
+    return lines.flatMap((line) => this.parseLine(line));
+  }
+
+  /**
+   * Parse any trailing partial line once the process has exited
+   */
+  flush(): EngineProgressEvent[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.parseLine(rest);
+  }
+
+  /**
+   * Agent text (used for completion detection)
+   */
+  getText(): string {
+    const text = this.textParts.join('\n');
+    if (this.resultText && !text.includes(this.resultText)) {
+      return text ? `${text}\n${this.resultText}` : this.resultText;
+    }
+    return text;
+  }
+
+  /**
+   * Summary of the run for the ExecutionResult
+   */
+  getSummary(): {
+    toolCalls: ToolCall[];
+    filesEdited: string[];
+    usage: TokenUsage;
+    costUsd?: number;
+    error?: string;
+  } {
+    return {
+      toolCalls: this.toolCalls,
+      filesEdited: [...this.filesEdited],
+      usage: this.usage,
+      costUsd: this.costUsd,
+      error: this.errorMessage,
+    };
+  }
+
+  /**
+   * Parse a single JSON line. Non-JSON lines are kept as plain text.
+   */
+  private parseLine(line: string): EngineProgressEvent[] {
+    const trimmed = line.trim();
+    if (!trimmed) return [];
+
+    let event: StreamEvent;
+    try {
+      event = JSON.parse(trimmed) as StreamEvent;
+    } catch {
+      this.textParts.push(trimmed);
+      return [{ type: 'text', text: trimmed }];
+    }
+
+    switch (event.type) {
+      case 'assistant':
+        return this.handleAssistant(event);
+      case 'result':
+        return this.handleResult(event);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Assistant messages carry text blocks, tool calls and per-turn usage
+   */
+  private handleAssistant(event: StreamEvent): EngineProgressEvent[] {
+    const events: EngineProgressEvent[] = [];
+    const message = event.message;
+    if (!message) return events;
+
+    for (const block of message.content ?? []) {
+      if (block.type === 'text' && block.text) {
+        this.textParts.push(block.text);
+        events.push({ type: 'text', text: block.text });
+      } else if (block.type === 'tool_use' && block.name) {
+        const toolCall: ToolCall = { name: block.name, target: describeToolInput(block.input) };
+        this.toolCalls.push(toolCall);
+
+        const filePath = block.input?.file_path ?? block.input?.notebook_path;
+        if (FILE_EDIT_TOOLS.has(block.name) && typeof filePath === 'string') {
+          this.filesEdited.add(filePath);
+        }
+        events.push({ type: 'tool', toolCall });
+      }
+    }
+
+    // A message may be split across several events; count its usage once
+    if (message.usage && !(message.id && this.seenMessages.has(message.id))) {
+      if (message.id) this.seenMessages.add(message.id);
+      this.usage = addUsage(this.usage, toTokenUsage(message.usage));
+      events.push({ type: 'usage', usage: this.usage });
+    }
+
+    return events;
+  }
+
+  /**
+   * The final result event has authoritative usage and cost
+   */
+  private handleResult(event: StreamEvent): EngineProgressEvent[] {
+    if (typeof event.result === 'string') {
+      this.resultText = event.result;
+    }
+    if (event.usage) {
+      this.usage = toTokenUsage(event.usage);
+    }
+    if (typeof event.total_cost_usd === 'number') {
+      this.costUsd = event.total_cost_usd;
+    }
+    if (event.is_error) {
+      this.errorMessage = `Agent reported an error (${event.subtype ?? 'unknown'})`;
+    }
+
+    return [{ type: 'usage', usage: this.usage, costUsd: this.costUsd }];
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 };
+}
+
+function toTokenUsage(usage: RawUsage): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+  };
+}
+
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+  };
+}
+
+/**
+ * Pick the most descriptive field of a tool input for display
+ */
+function describeToolInput(input?: Record<string, unknown>): string | undefined {
+  if (!input) return undefined;
+
+  for (const key of ['file_path', 'notebook_path', 'command', 'pattern', 'path', 'url']) {
+    const value = input[key];
+    if (typeof value === 'string' && value.length > 0) {
+      return value.length > 80 ? `${value.slice(0, 77)}...` : value;
+    }
+  }
+
+  return undefined;
+}
+
+// =============================================================================
+// Stream event types (subset of the Claude Code stream-json format)
+// =============================================================================
+
+interface RawUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+interface StreamEvent {
+  type: string;
+  subtype?: string;
+  message?: {
+    id?: string;
+    content?: {
+      type: string;
+      text?: string;
+      name?: string;
+      input?: Record<string, unknown>;
+    }[];
+    usage?: RawUsage;
+  };
+  result?: string;
+  usage?: RawUsage;
+  total_cost_usd?: number;
+  is_error?: boolean;
+}
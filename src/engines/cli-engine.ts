@@ -0,0 +1,339 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import type { ExecuteOptions, ExecutionResult } from '../config/schemas.ts';
+import type { Engine } from './claude-code.ts';
+import { isComplete } from './completion.ts';
+
+const DEFAULT_COMPLETION_PATTERN = '<promise>COMPLETE</promise>';
+const DEFAULT_TIMEOUT = 600000; // 10 minutes
+const DEFAULT_MAX_RETRIES = 2;
+const STDERR_TAIL_LINES = 10;
+
+/**
+ * CliEngine is the shared base for engines that drive an agent CLI as a child process.
+ * Subclasses provide the binary name and argument layout; spawning, timeouts,
+ * retries and completion detection are handled here.
+ */
+export abstract class CliEngine implements Engine {
+  abstract readonly name: string;
+
+  /**
+   * Binary to spawn (resolved from PATH)
+   */
+  protected abstract readonly command: string;
+
+  protected completionPattern: string;
+
+  constructor(options?: { completionPattern?: string }) {
+    this.completionPattern = options?.completionPattern || DEFAULT_COMPLETION_PATTERN;
+  }
+
+  /**
+   * Build CLI arguments for a prompt
+   */
+  protected abstract buildArgs(prompt: string, options: ExecuteOptions): string[];
+
+  /**
+   * Content written to the child's stdin (none by default)
+   */
+  protected buildStdin(_prompt: string): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Environment for the child process
+   */
+  protected buildEnv(): NodeJS.ProcessEnv {
+    return {
+      ...process.env,
+      // Ensure non-interactive mode
+      CI: 'true',
+    };
+  }
+
+  /**
+   * Parser for structured stdout (none by default: stdout is echoed and collected
+   * as the output)
+   */
+  protected createOutputParser(_options: ExecuteOptions): OutputParser | null {
+    return null;
+  }
+
+  /**
+   * Arguments used to probe the CLI version
+   */
+  protected versionArgs(): string[] {
+    return ['--version'];
+  }
+
+  /**
+   * Execute a prompt with retries
+   */
+  async execute(prompt: string, options?: Partial<ExecuteOptions>): Promise<ExecutionResult> {
+    const opts: ExecuteOptions = {
+      timeout: options?.timeout ?? DEFAULT_TIMEOUT,
+      maxRetries: options?.maxRetries ?? DEFAULT_MAX_RETRIES,
+      dangerouslySkipPermissions: options?.dangerouslySkipPermissions ?? false,
+      workingDirectory: options?.workingDirectory,
+      model: options?.model,
+      taskId: options?.taskId,
+      outputFormat: options?.outputFormat,
+      onProgress: options?.onProgress,
+      signal: options?.signal,
+    };
+
+    let lastError: string | undefined;
+    let attempt = 0;
+
+    while (attempt <= opts.maxRetries) {
+      attempt++;
+
+      try {
+        const result = await this.executeOnce(prompt, opts);
+
+        // An aborted run is not retried
+        if (result.success || result.completed || opts.signal?.aborted) {
+          return result;
+        }
+
+        lastError = result.error || 'Execution failed without error message';
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      // Wait before retry (exponential backoff)
+      if (attempt <= opts.maxRetries) {
+        const delay = Math.min(1000 * 2 ** attempt, 30000);
+        await this.sleep(delay);
+      }
+    }
+
+    return {
+      success: false,
+      output: '',
+      exitCode: 1,
+      duration: 0,
+      completed: false,
+      error: lastError || 'Max retries exceeded',
+    };
+  }
+
+  /**
+   * Execute a single attempt
+   */
+  protected executeOnce(prompt: string, options: ExecuteOptions): Promise<ExecutionResult> {
+    return this.runProcess(this.buildArgs(prompt, options), this.buildStdin(prompt), options);
+  }
+
+  /**
+   * Spawn the CLI with the given arguments and stdin content
+   */
+  protected runProcess(
+    args: string[],
+    stdin: string | undefined,
+    options: ExecuteOptions
+  ): Promise<ExecutionResult> {
+    return new Promise((resolve) => {
+      const startTime = Date.now();
+      let output = '';
+      let stderr = '';
+      let child: ChildProcess | null = null;
+      let timeoutId: ReturnType<typeof setTimeout> | null = null;
+      let settled = false;
+      const parser = this.createOutputParser(options);
+
+      // With a parser the output (and run details) come from the parsed stdout
+      let parsed: ParsedOutput | null = null;
+      const collect = (): ParsedOutput => {
+        parsed ??= parser ? parser.finish() : { output };
+        return parsed;
+      };
+
+      const finish = (result: Omit<ExecutionResult, 'duration' | 'output'>) => {
+        if (settled) return;
+        settled = true;
+        cleanup();
+        const { error: _, ...details } = collect();
+        resolve({ ...details, ...result, duration: Date.now() - startTime });
+      };
+
+      const cleanup = () => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+          timeoutId = null;
+        }
+        if (child && child.exitCode === null && !child.killed) {
+          child.kill('SIGTERM');
+        }
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+
+      // Abort (e.g. budget exhausted): stop the agent and keep what it produced
+      const onAbort = () => {
+        finish({
+          success: false,
+          exitCode: 130, // Interrupted exit code
+          completed: false,
+          error: `Execution aborted: ${abortReason(options.signal)}`,
+        });
+      };
+
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+
+      try {
+        child = spawn(this.command, args, {
+          cwd: options.workingDirectory,
+          stdio: ['pipe', 'pipe', 'pipe'],
+          env: this.buildEnv(),
+        });
+
+        timeoutId = setTimeout(() => {
+          finish({
+            success: false,
+            exitCode: 124, // Timeout exit code
+            completed: false,
+            error: `Execution timed out after ${options.timeout}ms`,
+          });
+        }, options.timeout);
+
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        child.stdout?.on('data', (data: Buffer) => {
+          const chunk = data.toString();
+          if (parser) {
+            parser.push(chunk);
+            return;
+          }
+          output += chunk;
+          process.stdout.write(chunk);
+        });
+
+        child.stderr?.on('data', (data: Buffer) => {
+          const chunk = data.toString();
+          stderr += chunk;
+          if (!parser) output += chunk;
+          process.stderr.write(chunk);
+        });
+
+        child.on('close', (code) => {
+          const { output: text, error: parseError } = collect();
+          finish({
+            success: code === 0 && !parseError,
+            exitCode: code ?? 1,
+            completed: this.checkCompletion(text),
+            error: code !== 0 ? this.exitError(code, stderr) : parseError,
+          });
+        });
+
+        child.on('error', (error) => {
+          finish({
+            success: false,
+            exitCode: 1,
+            completed: false,
+            error: error.message,
+          });
+        });
+
+        if (stdin !== undefined) {
+          child.stdin?.write(stdin);
+        }
+        child.stdin?.end();
+      } catch (error) {
+        finish({
+          success: false,
+          exitCode: 1,
+          completed: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  }
+
+  /**
+   * Error for a non-zero exit, with the end of stderr (CLI and auth errors often
+   * print nothing else)
+   */
+  private exitError(code: number | null, stderr: string): string {
+    const message = `${this.command} exited with code ${code}`;
+    const tail = stderr.trim().split('\n').slice(-STDERR_TAIL_LINES).join('\n');
+    return tail ? `${message}: ${tail}` : message;
+  }
+
+  /**
+   * Check if output contains the completion pattern (bare or with metadata)
+   */
+  checkCompletion(output: string): boolean {
+    return isComplete(output, this.completionPattern);
+  }
+
+  /**
+   * Check if the CLI binary is installed and responds to a version probe
+   */
+  async isAvailable(): Promise<boolean> {
+    return (await this.getVersion()) !== null;
+  }
+
+  /**
+   * Get the CLI version, or null if the binary cannot be run
+   */
+  getVersion(): Promise<string | null> {
+    return new Promise((resolve) => {
+      let output = '';
+
+      const child = spawn(this.command, this.versionArgs(), {
+        stdio: 'pipe',
+      });
+
+      child.stdout?.on('data', (data: Buffer) => {
+        output += data.toString();
+      });
+
+      child.on('close', (code) => {
+        resolve(code === 0 ? output.trim() : null);
+      });
+
+      child.on('error', () => {
+        resolve(null);
+      });
+
+      child.stdin?.end();
+    });
+  }
+
+  /**
+   * Sleep helper
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Describe why an execution was aborted
+ */
+export function abortReason(signal?: AbortSignal): string {
+  const reason = signal?.reason;
+  if (reason instanceof Error) return reason.message;
+  return reason ? String(reason) : 'cancelled';
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Agent text (used for completion detection) and run details parsed from stdout;
+ * `error` marks a run the CLI reported as failed
+ */
+export type ParsedOutput = Partial<Omit<ExecutionResult, 'output'>> & { output: string };
+
+/**
+ * Consumes a CLI's structured stdout as it arrives
+ */
+export interface OutputParser {
+  push(chunk: string): void;
+  /** Called once the process has ended or was stopped */
+  finish(): ParsedOutput;
+}
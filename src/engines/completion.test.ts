@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { extractBlockedReason, extractCompletionMetadata, isComplete } from './completion.ts';
+
+describe('isComplete', () => {
+  test('accepts the bare token and the metadata form', () => {
+    expect(isComplete('done\n<promise>COMPLETE</promise>')).toBe(true);
+    expect(isComplete('<promise>COMPLETE: {"summary": "Done"}</promise>')).toBe(true);
+    expect(isComplete('<promise>COMPLETE: not json</promise>')).toBe(false);
+    expect(isComplete('still working')).toBe(false);
+  });
+
+  test('uses a custom pattern', () => {
+    expect(isComplete('<done>OK</done>', '<done>OK</done>')).toBe(true);
+    expect(isComplete('<done>OK: {}</done>', '<done>OK</done>')).toBe(true);
+    expect(isComplete('<promise>COMPLETE</promise>', '<done>OK</done>')).toBe(false);
+  });
+});
+
+describe('extractCompletionMetadata', () => {
+  test('returns null when the agent did not complete', () => {
+    expect(extractCompletionMetadata('no token here')).toBeNull();
+  });
+
+  test('returns an empty object for the bare token', () => {
+    expect(extractCompletionMetadata('<promise>COMPLETE</promise>')).toEqual({});
+  });
+
+  test('parses the reported metadata across lines', () => {
+    const output = `Work done.
+<promise>COMPLETE: {
+  "summary": "Add login form",
+  "filesChanged": ["src/login.ts"],
+  "testsRun": true,
+  "testsPassed": false
+}</promise>`;
+
+    expect(extractCompletionMetadata(output)).toEqual({
+      summary: 'Add login form',
+      filesChanged: ['src/login.ts'],
+      testsRun: true,
+      testsPassed: false,
+    });
+  });
+
+  test('uses the last report when there are several', () => {
+    const output = [
+      '<promise>COMPLETE: {"summary": "First"}</promise>',
+      '<promise>COMPLETE: {"summary": "Second"}</promise>',
+    ].join('\n');
+
+    expect(extractCompletionMetadata(output)).toEqual({ summary: 'Second' });
+  });
+
+  test('drops fields of the wrong type and keeps the rest', () => {
+    const output = '<promise>COMPLETE: {"summary": "Done", "filesChanged": "src/a.ts"}</promise>';
+
+    expect(extractCompletionMetadata(output)).toEqual({ summary: 'Done' });
+  });
+
+  test('returns an empty object for unparsable JSON next to a bare token', () => {
+    const output = '<promise>COMPLETE: {summary}</promise>\n<promise>COMPLETE</promise>';
+
+    expect(extractCompletionMetadata(output)).toEqual({});
+  });
+
+  test('has no metadata form for a pattern without a closing tag', () => {
+    expect(extractCompletionMetadata('DONE: {"summary": "x"}', 'DONE')).toEqual({});
+  });
+});
+
+describe('extractBlockedReason', () => {
+  test('returns null when the agent is not blocked', () => {
+    expect(extractBlockedReason('<promise>COMPLETE</promise>')).toBeNull();
+  });
+
+  test('returns the trimmed reason of the last signal', () => {
+    const output = [
+      '<promise>BLOCKED: first</promise>',
+      '<promise>BLOCKED:\n  Which database should I use?\n</promise>',
+    ].join('\n');
+
+    expect(extractBlockedReason(output)).toBe('Which database should I use?');
+  });
+
+  test('falls back to a placeholder for an empty reason', () => {
+    expect(extractBlockedReason('<promise>BLOCKED:</promise>')).toBe('No reason given');
+  });
+
+  test('uses the tags of a custom pattern', () => {
+    expect(extractBlockedReason('<done>BLOCKED: need a key</done>', '<done>OK</done>')).toBe(
+      'need a key'
+    );
+    expect(extractBlockedReason('<promise>BLOCKED: x</promise>', '<done>OK</done>')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { type CompletionMetadata, CompletionMetadataSchema } from '../config/schemas.ts';
+
+export const DEFAULT_COMPLETION_PATTERN = '<promise>COMPLETE</promise>';
+
+/**
+ * Check if output contains the completion pattern, either bare or carrying
+ * metadata (`<promise>COMPLETE: {...}</promise>`)
+ */
+export function isComplete(output: string, pattern = DEFAULT_COMPLETION_PATTERN): boolean {
+  return output.includes(pattern) || metadataPattern(pattern)?.test(output) === true;
+}
+
+/**
+ * Extract completion metadata from output. Returns null when the agent did not
+ * complete, and an empty object for a bare token or unparsable JSON.
+ */
+export function extractCompletionMetadata(
+  output: string,
+  pattern = DEFAULT_COMPLETION_PATTERN
+): CompletionMetadata | null {
+  if (!isComplete(output, pattern)) {
+    return null;
+  }
+
+  // The last report wins if the agent emitted several
+  const regex = metadataPattern(pattern, 'g');
+  const matches = regex ? [...output.matchAll(regex)] : [];
+  const json = matches[matches.length - 1]?.[1];
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const result = CompletionMetadataSchema.safeParse(JSON.parse(json));
+    return result.success ? result.data : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Extract the reason from a blocked signal (`<promise>BLOCKED: questions</promise>`),
+ * using the tags of the completion pattern. Returns null when the agent is not blocked.
+ */
+export function extractBlockedReason(
+  output: string,
+  pattern = DEFAULT_COMPLETION_PATTERN
+): string | null {
+  const openEnd = pattern.indexOf('>');
+  const closeIndex = pattern.lastIndexOf('</');
+  const [open, close] =
+    openEnd > 0 && closeIndex > openEnd
+      ? [pattern.slice(0, openEnd + 1), pattern.slice(closeIndex)]
+      : ['<promise>', '</promise>'];
+
+  const regex = new RegExp(`${escapeRegExp(open)}BLOCKED:([\\s\\S]*?)${escapeRegExp(close)}`, 'g');
+  const matches = [...output.matchAll(regex)];
+  const reason = matches[matches.length - 1]?.[1].trim();
+  return reason === undefined ? null : reason || 'No reason given';
+}
+
+/**
+ * Metadata form of a `<tag>TOKEN</tag>` pattern: `<tag>TOKEN: {json}</tag>`.
+ * Patterns without a closing tag have no metadata form.
+ */
+function metadataPattern(pattern: string, flags = ''): RegExp | null {
+  const closeIndex = pattern.lastIndexOf('</');
+  if (closeIndex <= 0) {
+    return null;
+  }
+
+  const open = escapeRegExp(pattern.slice(0, closeIndex));
+  const close = escapeRegExp(pattern.slice(closeIndex));
+  return new RegExp(`${open}:\\s*(\\{[\\s\\S]*?\\})\\s*${close}`, flags);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,36 @@
+import type { ExecuteOptions } from '../config/schemas.ts';
+import { CliEngine } from './cli-engine.ts';
+
+/**
+ * CursorEngine wraps the Cursor agent CLI (`cursor-agent`) for autonomous task execution.
+ */
+export class CursorEngine extends CliEngine {
+  readonly name = 'cursor';
+
+  protected readonly command = 'cursor-agent';
+
+  /**
+   * Build CLI arguments
+   */
+  protected buildArgs(prompt: string, options: ExecuteOptions): string[] {
+    const args: string[] = [];
+
+    // Use print mode with plain text output for non-interactive execution
+    args.push('--print', '--output-format', 'text');
+
+    // Add model if specified
+    if (options.model) {
+      args.push('--model', options.model);
+    }
+
+    // Allow commands and file writes without confirmation (dangerous!)
+    if (options.dangerouslySkipPermissions) {
+      args.push('--force');
+    }
+
+    // Add the prompt
+    args.push(prompt);
+
+    return args;
+  }
+}
@@ -0,0 +1,116 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Handlebars from 'handlebars';
+import type { CustomEngineConfig, ExecuteOptions, ExecutionResult } from '../config/schemas.ts';
+import { CliEngine } from './cli-engine.ts';
+
+/**
+ * CustomEngine runs any agent CLI described by `agent.custom` in config.yaml,
+ * so new agents (Aider, Codex-style CLIs, internal wrappers) need no code changes.
+ */
+export class CustomEngine extends CliEngine {
+  readonly name = 'custom';
+
+  protected readonly command: string;
+
+  private config: CustomEngineConfig;
+
+  constructor(config: CustomEngineConfig, options?: { completionPattern?: string }) {
+    super(options);
+    this.config = config;
+    this.command = config.command;
+  }
+
+  /**
+   * Execute a single attempt, writing the prompt to a temp file when requested
+   */
+  protected async executeOnce(prompt: string, options: ExecuteOptions): Promise<ExecutionResult> {
+    if (this.config.promptDelivery !== 'file') {
+      return super.executeOnce(prompt, options);
+    }
+
+    const promptDir = mkdtempSync(join(tmpdir(), 'atzentis-prompt-'));
+    const promptFile = join(promptDir, 'prompt.md');
+    writeFileSync(promptFile, prompt);
+
+    try {
+      return await this.runProcess(
+        this.renderArgs(prompt, options, promptFile),
+        undefined,
+        options
+      );
+    } finally {
+      rmSync(promptDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Build CLI arguments from the configured templates
+   */
+  protected buildArgs(prompt: string, options: ExecuteOptions): string[] {
+    return this.renderArgs(prompt, options);
+  }
+
+  /**
+   * Send the prompt via stdin when configured
+   */
+  protected buildStdin(prompt: string): string | undefined {
+    return this.config.promptDelivery === 'stdin' ? prompt : undefined;
+  }
+
+  /**
+   * Add configured environment variables
+   */
+  protected buildEnv(): NodeJS.ProcessEnv {
+    return {
+      ...super.buildEnv(),
+      ...this.config.env,
+    };
+  }
+
+  /**
+   * Arguments used to probe the CLI version
+   */
+  protected versionArgs(): string[] {
+    return this.config.versionArgs;
+  }
+
+  /**
+   * Render argument templates. Arguments that render empty are dropped, and the
+   * prompt (or prompt file) is appended when no template references it.
+   */
+  private renderArgs(prompt: string, options: ExecuteOptions, promptFile?: string): string[] {
+    const data = {
+      prompt,
+      promptFile,
+      model: options.model,
+      cwd: options.workingDirectory,
+      taskId: options.taskId,
+    };
+
+    const templates = [...this.config.args];
+    if (options.model) {
+      templates.push(...this.config.modelArgs);
+    }
+    if (options.dangerouslySkipPermissions) {
+      templates.push(...this.config.skipPermissionsArgs);
+    }
+
+    const args = templates
+      .map((template) => Handlebars.compile(template, { noEscape: true })(data))
+      .filter((arg) => arg.length > 0);
+
+    const references = (variable: string) =>
+      this.config.args.some((template) => template.includes(`{{${variable}}}`));
+
+    if (this.config.promptDelivery === 'argument' && !references('prompt')) {
+      args.push(prompt);
+    }
+    if (this.config.promptDelivery === 'file' && promptFile && !references('promptFile')) {
+      args.push(promptFile);
+    }
+
+    return args;
+  }
+}
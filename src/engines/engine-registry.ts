@@ -1,5 +1,17 @@
-import type { EngineType, ExecuteOptions, ExecutionResult } from '../config/schemas.ts';
+import { join } from 'node:path';
+import {
+  CustomEngineConfigSchema,
+  type EngineType,
+  type ExecuteOptions,
+  type ExecutionResult,
+  type ProjectConfig,
+  type Task,
+} from '../config/schemas.ts';
 import { ClaudeCodeEngine, type Engine } from './claude-code.ts';
+import { CursorEngine } from './cursor.ts';
+import { CustomEngine } from './custom.ts';
+import { MockEngine } from './mock.ts';
+import { OpenCodeEngine } from './opencode.ts';
 
 /**
  * EngineRegistry manages available AI execution engines.
@@ -18,8 +30,40 @@ export class EngineRegistry {
    * Register built-in engines
    */
   private registerBuiltInEngines(): void {
-    // Claude Code is the default and only built-in engine for now
+    // Claude Code is the default engine
     this.register(new ClaudeCodeEngine());
+    this.register(new OpenCodeEngine());
+    this.register(new CursorEngine());
+    this.register(new MockEngine());
+  }
+
+  /**
+   * Apply project configuration to config-driven engines
+   */
+  configure(projectRoot: string, config: ProjectConfig | null): void {
+    // Every engine detects completion with the project's pattern
+    const completionPattern = config?.completionPattern;
+    this.register(new ClaudeCodeEngine({ completionPattern }));
+    this.register(new OpenCodeEngine({ completionPattern }));
+    this.register(new CursorEngine({ completionPattern }));
+    this.register(
+      new MockEngine({
+        completionPattern,
+        fixturePath: config?.agent?.fixture ? join(projectRoot, config.agent.fixture) : undefined,
+      })
+    );
+
+    // The custom engine only exists when declared under agent.custom
+    if (config?.agent?.custom) {
+      const result = CustomEngineConfigSchema.safeParse(config.agent.custom);
+      if (!result.success) {
+        const issues = result.error.issues
+          .map((issue) => `agent.custom.${issue.path.join('.')}: ${issue.message}`)
+          .join('; ');
+        throw new Error(`Invalid custom engine configuration: ${issues}`);
+      }
+      this.register(new CustomEngine(result.data, { completionPattern }));
+    }
   }
 
   /**
@@ -111,14 +155,9 @@ export class EngineRegistry {
   async checkAvailability(): Promise<Map<string, boolean>> {
     const availability = new Map<string, boolean>();
 
-    for (const name of this.engines.keys()) {
-      // For now, only Claude Code has availability check
-      if (name === 'claude-code') {
-        availability.set(name, await ClaudeCodeEngine.isAvailable());
-      } else {
-        // Assume other engines are available
-        availability.set(name, true);
-      }
+    for (const [name, engine] of this.engines) {
+      // Engines without a probe are assumed to be available
+      availability.set(name, engine.isAvailable ? await engine.isAvailable() : true);
     }
 
     return availability;
@@ -136,9 +175,12 @@ export class EngineRegistry {
       available: true,
     };
 
-    if (name === 'claude-code') {
-      info.available = await ClaudeCodeEngine.isAvailable();
-      info.version = (await ClaudeCodeEngine.getVersion()) || undefined;
+    if (engine.getVersion) {
+      const version = await engine.getVersion();
+      info.available = version !== null;
+      info.version = version || undefined;
+    } else if (engine.isAvailable) {
+      info.available = await engine.isAvailable();
     }
 
     return info;
@@ -155,6 +197,36 @@ export interface EngineInfo {
   version?: string;
 }
 
+/**
+ * Engine and model chosen for a run or a single task
+ */
+export interface EngineSelection {
+  engine: EngineType;
+  model?: string;
+  fromFlags?: { engine?: boolean; model?: boolean }; // Set by --engine / --model
+}
+
+// =============================================================================
+// Engine selection
+// =============================================================================
+
+/**
+ * Resolve the engine and model for a task.
+ * Task frontmatter overrides config.yaml, and --engine / --model override both.
+ * A model is only carried over to the engine it was chosen for.
+ */
+export function selectEngineForTask(
+  task: Pick<Task, 'engine' | 'model'>,
+  defaults: EngineSelection
+): EngineSelection {
+  const { fromFlags = {} } = defaults;
+  const engine = fromFlags.engine ? defaults.engine : (task.engine ?? defaults.engine);
+  const taskModel = !task.engine || task.engine === engine ? task.model : undefined;
+  const runModel = engine === defaults.engine ? defaults.model : undefined;
+  const model = fromFlags.model ? (runModel ?? taskModel) : (taskModel ?? runModel);
+  return { engine, model };
+}
+
 // =============================================================================
 // Singleton instance
 // =============================================================================
@@ -0,0 +1,217 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative, resolve as resolvePath } from 'node:path';
+import YAML from 'yaml';
+import { getCliDir } from '../config/auto-detector.ts';
+import {
+  type ExecuteOptions,
+  type ExecutionResult,
+  type MockFixture,
+  MockFixtureSchema,
+  type MockResponse,
+  MockResponseSchema,
+} from '../config/schemas.ts';
+import type { Engine } from './claude-code.ts';
+import { abortReason } from './cli-engine.ts';
+import { isComplete } from './completion.ts';
+
+const DEFAULT_COMPLETION_PATTERN = '<promise>COMPLETE</promise>';
+const DEFAULT_TIMEOUT = 600000; // 10 minutes
+const DEFAULT_FIXTURE_FILE = 'mock.yaml';
+
+/**
+ * MockEngine replays scripted responses from a fixture file instead of spawning an agent.
+ * It enables offline, deterministic end-to-end runs of specs, hooks and CI pipelines.
+ *
+ * The fixture path is taken from the constructor, then ATZENTIS_MOCK_FIXTURE,
+ * then `.atzentis/cli/mock.yaml`. Without a fixture every task completes with no changes.
+ */
+export class MockEngine implements Engine {
+  readonly name = 'mock';
+
+  private completionPattern: string;
+  private fixturePath: string;
+  private fixture: MockFixture | null = null;
+  private attempts: Map<string, number> = new Map();
+
+  constructor(options?: { completionPattern?: string; fixturePath?: string }) {
+    this.completionPattern = options?.completionPattern || DEFAULT_COMPLETION_PATTERN;
+    this.fixturePath =
+      options?.fixturePath ||
+      process.env.ATZENTIS_MOCK_FIXTURE ||
+      join(getCliDir(process.cwd()), DEFAULT_FIXTURE_FILE);
+  }
+
+  /**
+   * Replay the scripted response for the task
+   */
+  async execute(prompt: string, options?: Partial<ExecuteOptions>): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const timeout = options?.timeout ?? DEFAULT_TIMEOUT;
+    const taskId = options?.taskId ?? this.extractTaskId(prompt);
+
+    const attempt = (this.attempts.get(taskId) ?? 0) + 1;
+    this.attempts.set(taskId, attempt);
+
+    const response = this.getResponse(taskId, attempt);
+
+    if (response.hang) {
+      await this.sleep(timeout, options?.signal);
+    } else if (response.delay > 0) {
+      await this.sleep(Math.min(response.delay, timeout), options?.signal);
+    }
+
+    if (options?.signal?.aborted) {
+      return {
+        success: false,
+        output: response.output,
+        exitCode: 130, // Interrupted exit code
+        duration: Date.now() - startTime,
+        completed: false,
+        error: `Execution aborted: ${abortReason(options.signal)}`,
+      };
+    }
+
+    if (response.hang) {
+      return {
+        success: false,
+        output: response.output,
+        exitCode: 124, // Timeout exit code
+        duration: Date.now() - startTime,
+        completed: false,
+        error: `Execution timed out after ${timeout}ms`,
+      };
+    }
+
+    // Scripted failure for the first N attempts
+    if (attempt <= response.failTimes) {
+      return {
+        success: false,
+        output: response.output,
+        exitCode: 1,
+        duration: Date.now() - startTime,
+        completed: false,
+        error: `Mock failure ${attempt}/${response.failTimes} for ${taskId}`,
+      };
+    }
+
+    if (options?.workingDirectory) {
+      this.writeFiles(options.workingDirectory, response.files);
+    }
+
+    const output = response.complete
+      ? `${response.output}\n${this.completionPattern}\n`
+      : response.output;
+
+    return {
+      success: response.exitCode === 0,
+      output,
+      exitCode: response.exitCode,
+      duration: Date.now() - startTime,
+      completed: this.checkCompletion(output),
+      error: response.exitCode !== 0 ? `Mock exited with code ${response.exitCode}` : undefined,
+    };
+  }
+
+  /**
+   * Check if output contains the completion pattern (bare or with metadata)
+   */
+  checkCompletion(output: string): boolean {
+    return isComplete(output, this.completionPattern);
+  }
+
+  /**
+   * The mock engine is always available
+   */
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Report the fixture in use as the version
+   */
+  async getVersion(): Promise<string | null> {
+    return `mock (${this.fixturePath})`;
+  }
+
+  /**
+   * Pick the response for a task attempt. A list scripts successive attempts,
+   * repeating its last entry once exhausted.
+   */
+  private getResponse(taskId: string, attempt: number): MockResponse {
+    const fixture = this.loadFixture();
+    const entry = fixture.tasks[taskId];
+
+    if (Array.isArray(entry)) {
+      return entry[Math.min(attempt, entry.length) - 1];
+    }
+
+    return entry ?? fixture.default ?? MockResponseSchema.parse({});
+  }
+
+  /**
+   * Load and validate the fixture file (cached after the first read)
+   */
+  private loadFixture(): MockFixture {
+    if (this.fixture) {
+      return this.fixture;
+    }
+
+    if (!existsSync(this.fixturePath)) {
+      this.fixture = MockFixtureSchema.parse({});
+      return this.fixture;
+    }
+
+    const content = readFileSync(this.fixturePath, 'utf-8');
+    const result = MockFixtureSchema.safeParse(YAML.parse(content) ?? {});
+    if (!result.success) {
+      throw new Error(`Invalid mock fixture ${this.fixturePath}: ${result.error.message}`);
+    }
+
+    this.fixture = result.data;
+    return this.fixture;
+  }
+
+  /**
+   * Write scripted files into the worktree
+   */
+  private writeFiles(workingDirectory: string, files: Record<string, string>): void {
+    for (const [file, content] of Object.entries(files)) {
+      const filePath = resolvePath(workingDirectory, file);
+
+      if (relative(workingDirectory, filePath).startsWith('..')) {
+        throw new Error(`Mock fixture file escapes the worktree: ${file}`);
+      }
+
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, content);
+    }
+  }
+
+  /**
+   * Fall back to the task ID in the prompt heading when none is passed
+   */
+  private extractTaskId(prompt: string): string {
+    return prompt.match(/T\d{2}-\d{3}/)?.[0] ?? 'unknown';
+  }
+
+  /**
+   * Sleep helper that wakes early when the signal aborts
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
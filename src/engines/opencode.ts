@@ -0,0 +1,31 @@
+import type { ExecuteOptions } from '../config/schemas.ts';
+import { CliEngine } from './cli-engine.ts';
+
+/**
+ * OpenCodeEngine wraps the OpenCode CLI (`opencode run`) for autonomous task execution.
+ */
+export class OpenCodeEngine extends CliEngine {
+  readonly name = 'opencode';
+
+  protected readonly command = 'opencode';
+
+  /**
+   * Build CLI arguments
+   */
+  protected buildArgs(prompt: string, options: ExecuteOptions): string[] {
+    // `run` executes a single prompt non-interactively and exits
+    const args = ['run'];
+
+    // OpenCode expects models as provider/model (e.g. anthropic/claude-sonnet-4)
+    if (options.model) {
+      args.push('--model', options.model);
+    }
+
+    // Tool permissions are governed by opencode.json, so
+    // dangerouslySkipPermissions has no CLI equivalent here
+
+    args.push(prompt);
+
+    return args;
+  }
+}
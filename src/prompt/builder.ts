@@ -2,7 +2,7 @@ import { readFileSync, existsSync } from 'node:fs';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import Handlebars from 'handlebars';
-import type { Task, ProjectConfig } from '../config/schemas.ts';
+import type { Task, ProjectConfig, CriterionVerdict, TaskQuestion } from '../config/schemas.ts';
 import { getCliDir } from '../config/auto-detector.ts';
 import { getPhaseContext } from '../core/phase-loader.ts';
 
@@ -10,6 +10,13 @@ import { getPhaseContext } from '../core/phase-loader.ts';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Limits for failure details carried into a retry prompt
+const MAX_RETRY_OUTPUT_CHARS = 8000;
+const MAX_RETRY_DIFF_CHARS = 12000;
+
+// Diff shown to the reviewer
+const MAX_REVIEW_DIFF_CHARS = 40000;
+
 // Minimal fallback template if no template file is found
 const FALLBACK_TEMPLATE = `# Task: {{task.id}} - {{task.name}}
 
@@ -35,14 +42,161 @@ const FALLBACK_TEMPLATE = `# Task: {{task.id}} - {{task.name}}
 {{/each}}
 {{/if}}
 
+{{#if boundaries}}
+## Protected Files (DO NOT MODIFY)
+{{#each boundaries}}
+- \`{{this}}\`
+{{/each}}
+{{/if}}
+
 {{#if context}}
 ## Context
 {{context}}
 {{/if}}
 
+{{#if answers}}
+## Answers to Your Questions
+{{#each answers}}
+Q: {{{question}}}
+A: {{{answer}}}
+{{/each}}
+{{/if}}
+
+{{#if retryContext}}
+## Previous Attempt Failed
+Attempt {{retryContext.attempt}}. The previous attempt failed with:
+{{{retryContext.error}}}
+{{#if retryContext.validationOutput}}
+
+\`\`\`
+{{{retryContext.validationOutput}}}
+\`\`\`
+{{/if}}
+{{#if retryContext.diff}}
+
+\`\`\`diff
+{{{retryContext.diff}}}
+\`\`\`
+{{/if}}
+{{/if}}
+
 ---
 
-When complete, output: <promise>COMPLETE</promise>
+When complete, output: <promise>COMPLETE: {"summary": "...", "filesChanged": ["..."], "testsRun": true, "testsPassed": true}</promise>
+If you need a human decision to proceed, output: <promise>BLOCKED: your questions</promise>
+`;
+
+// Prompt for a validation fix-up round in the task's existing worktree
+const FIX_TEMPLATE = `# Fix: {{task.id}} - {{task.name}}
+
+Your changes for this task are in the working tree, but the \`{{fix.step}}\` check failed.
+This is fix round {{fix.round}} of {{fix.maxRounds}}.
+
+## Failing Command
+
+\`\`\`
+{{{fix.command}}}
+\`\`\`
+
+## Output
+
+\`\`\`
+{{{fix.output}}}
+\`\`\`
+
+{{#if boundaries}}
+## Protected Files (DO NOT MODIFY)
+
+{{#each boundaries}}
+- \`{{this}}\`
+{{/each}}
+
+{{/if}}
+## Instructions
+
+- Fix the problems reported above with the smallest change that works
+- Keep every acceptance criterion of the task met
+- Do not disable, skip or delete checks or tests to make them pass
+
+When the command passes, output: {{{completionPattern}}}
+`;
+
+// Minimal fallback review template if no review template file is found
+const FALLBACK_REVIEW_TEMPLATE = `# Review: {{task.id}} - {{task.name}}
+
+You are reviewing another agent's implementation of this task. Do not modify any files.
+
+## Acceptance Criteria
+{{#each criteria}}
+{{this.number}}. {{this.text}}
+{{/each}}
+
+## Changes
+
+\`\`\`diff
+{{{diff}}}
+\`\`\`
+
+Check every criterion against the changes and answer with JSON, one verdict per criterion number:
+
+<review>
+{"verdicts": [{"criterion": 1, "met": true, "reason": "Short explanation"}], "summary": "One-sentence overall assessment"}
+</review>
+`;
+
+// Prompt re-sent to the agent when the review finds unmet criteria
+const REWORK_TEMPLATE = `# Rework: {{task.id}} - {{task.name}}
+
+Your changes for this task are in the working tree, but a review found acceptance criteria that are not met.
+This is review round {{rework.round}} of {{rework.maxRounds}}.
+
+## Unmet Criteria
+
+{{#each rework.unmet}}
+- {{this.criterion}}: {{this.reason}}
+{{/each}}
+
+{{#if boundaries}}
+## Protected Files (DO NOT MODIFY)
+
+{{#each boundaries}}
+- \`{{this}}\`
+{{/each}}
+
+{{/if}}
+## Instructions
+
+- Complete the unmet criteria above, building on the existing changes
+- Keep the criteria that are already met working
+
+When you are done, output: {{{completionPattern}}}
+`;
+
+// Prompt for resolving conflicts in the phase integration worktree
+const MERGE_TEMPLATE = `# Merge: {{task.id}} - {{task.name}}
+
+The branch \`{{merge.branch}}\` of this task is being merged into the integration branch \`{{merge.integrationBranch}}\`, which already contains other tasks of the phase. The merge stopped with conflicts.
+
+## Conflicting Files
+
+{{#each merge.conflicts}}
+- \`{{this}}\`
+{{/each}}
+
+{{#if boundaries}}
+## Protected Files (DO NOT MODIFY)
+
+{{#each boundaries}}
+- \`{{this}}\`
+{{/each}}
+
+{{/if}}
+## Instructions
+
+- Resolve every conflict so that the changes of both sides keep working together
+- Remove all conflict markers and do not commit; the merge is concluded for you
+
+When you are done, output: {{{completionPattern}}}
 `;
 
 /**
@@ -51,6 +205,10 @@ When complete, output: <promise>COMPLETE</promise>
  */
 export class PromptBuilder {
   private template: Handlebars.TemplateDelegate;
+  private fixTemplate: Handlebars.TemplateDelegate;
+  private reworkTemplate: Handlebars.TemplateDelegate;
+  private mergeTemplate: Handlebars.TemplateDelegate;
+  private reviewTemplate: Handlebars.TemplateDelegate | null = null;
   private projectConfig: ProjectConfig | null;
   private projectRoot: string;
 
@@ -58,6 +216,9 @@ export class PromptBuilder {
     this.projectRoot = projectRoot;
     this.projectConfig = projectConfig || null;
     this.template = this.loadTemplate();
+    this.fixTemplate = Handlebars.compile(FIX_TEMPLATE);
+    this.reworkTemplate = Handlebars.compile(REWORK_TEMPLATE);
+    this.mergeTemplate = Handlebars.compile(MERGE_TEMPLATE);
     this.registerHelpers();
   }
 
@@ -100,6 +261,28 @@ export class PromptBuilder {
     return Handlebars.compile(FALLBACK_TEMPLATE);
   }
 
+  /**
+   * Load the review template: review.template from config, then
+   * .atzentis/cli/templates/review.hbs, then the bundled template
+   */
+  private loadReviewTemplate(): Handlebars.TemplateDelegate {
+    const candidates = [
+      this.projectConfig?.review?.template
+        ? join(this.projectRoot, this.projectConfig.review.template)
+        : null,
+      join(getCliDir(this.projectRoot), 'templates', 'review.hbs'),
+      join(__dirname, 'templates', 'review.hbs'),
+    ];
+
+    for (const templatePath of candidates) {
+      if (templatePath && existsSync(templatePath)) {
+        return Handlebars.compile(readFileSync(templatePath, 'utf-8'));
+      }
+    }
+
+    return Handlebars.compile(FALLBACK_REVIEW_TEMPLATE);
+  }
+
   /**
    * Register custom Handlebars helpers
    */
@@ -153,6 +336,7 @@ export class PromptBuilder {
         skills: task.skills,
       },
       rules: this.projectConfig?.rules || [],
+      boundaries: this.projectConfig?.boundaries?.neverTouch || [],
       context,
       project: this.projectConfig
         ? {
@@ -161,13 +345,68 @@ export class PromptBuilder {
             commands: this.projectConfig.commands,
           }
         : undefined,
-      completionPattern:
-        this.projectConfig?.completionPattern || '<promise>COMPLETE</promise>',
+      completionPattern: this.projectConfig?.completionPattern || '<promise>COMPLETE</promise>',
+      retryContext: options?.retryContext && {
+        ...options.retryContext,
+        // Keep the end of long output, where failures are reported
+        validationOutput: options.retryContext.validationOutput?.slice(-MAX_RETRY_OUTPUT_CHARS),
+        diff: truncate(options.retryContext.diff, MAX_RETRY_DIFF_CHARS),
+      },
+      answers: options?.answers?.length ? options.answers : undefined,
     };
 
     return this.template(templateData);
   }
 
+  /**
+   * Build a prompt asking the agent to fix a failing validation step
+   */
+  buildFixPrompt(task: Task, fix: FixContext): string {
+    return this.fixTemplate({
+      task: { id: task.id, name: task.name },
+      fix: { ...fix, output: fix.output.slice(-MAX_RETRY_OUTPUT_CHARS) },
+      boundaries: this.projectConfig?.boundaries?.neverTouch || [],
+      completionPattern: this.getCompletionPattern(),
+    });
+  }
+
+  /**
+   * Build the reviewer prompt: numbered acceptance criteria and the task's diff
+   */
+  buildReviewPrompt(task: Task, diff: string): string {
+    this.reviewTemplate ??= this.loadReviewTemplate();
+
+    return this.reviewTemplate({
+      task: { id: task.id, name: task.name, description: task.description },
+      criteria: task.acceptanceCriteria.map((text, index) => ({ number: index + 1, text })),
+      diff: truncate(diff, MAX_REVIEW_DIFF_CHARS),
+    });
+  }
+
+  /**
+   * Build a prompt asking the agent to complete criteria the review found unmet
+   */
+  buildReworkPrompt(task: Task, rework: ReworkContext): string {
+    return this.reworkTemplate({
+      task: { id: task.id, name: task.name },
+      rework,
+      boundaries: this.projectConfig?.boundaries?.neverTouch || [],
+      completionPattern: this.getCompletionPattern(),
+    });
+  }
+
+  /**
+   * Build a prompt asking the agent to resolve conflicts merging into the integration branch
+   */
+  buildMergePrompt(task: Task, merge: MergeContext): string {
+    return this.mergeTemplate({
+      task: { id: task.id, name: task.name },
+      merge,
+      boundaries: this.projectConfig?.boundaries?.neverTouch || [],
+      completionPattern: this.getCompletionPattern(),
+    });
+  }
+
   /**
    * Gather context from context providers
    */
@@ -267,6 +506,14 @@ Completion pattern: ${this.projectConfig?.completionPattern || '<promise>COMPLET
   }
 }
 
+/**
+ * Cut text to a maximum length, noting what was dropped
+ */
+function truncate(text: string | undefined, max: number): string | undefined {
+  if (!text || text.length <= max) return text;
+  return `${text.slice(0, max)}\n... (${text.length - max} more characters truncated)`;
+}
+
 // =============================================================================
 // Types
 // =============================================================================
@@ -274,6 +521,50 @@ Completion pattern: ${this.projectConfig?.completionPattern || '<promise>COMPLET
 export interface BuildOptions {
   additionalContext?: string;
   includeFileContents?: boolean;
+  retryContext?: RetryContext;
+  /** Questions the agent asked while blocked, with their answers */
+  answers?: TaskQuestion[];
+}
+
+/**
+ * Details of a failed attempt carried into the next prompt
+ */
+export interface RetryContext {
+  attempt: number;
+  error: string;
+  validationStep?: string;
+  validationOutput?: string;
+  diff?: string;
+  worktreeKept: boolean;
+}
+
+/**
+ * A failing validation step handed back to the agent
+ */
+export interface FixContext {
+  round: number;
+  maxRounds: number;
+  step: string;
+  command: string;
+  output: string;
+}
+
+/**
+ * Criteria a review found unmet, handed back to the agent
+ */
+export interface ReworkContext {
+  round: number;
+  maxRounds: number;
+  unmet: CriterionVerdict[];
+}
+
+/**
+ * A conflicted merge of a task branch into the integration branch
+ */
+export interface MergeContext {
+  branch: string;
+  integrationBranch: string;
+  conflicts: string[];
 }
 
 interface TemplateData {
@@ -294,15 +585,19 @@ interface TemplateData {
     skills: string[];
   };
   rules: string[];
+  boundaries: string[];
   context: string;
   project?: {
     name: string;
     language?: string;
     commands?: {
+      typecheck?: string;
       test?: string;
       lint?: string;
       build?: string;
     };
   };
   completionPattern: string;
+  retryContext?: RetryContext;
+  answers?: TaskQuestion[];
 }